@@ -10,6 +10,16 @@ export type Snowflake = string;
  */
 export type Permissions = string;
 
+const ChatInputApplicationCommandNameSource = String.raw`[-_\p{Letter}\p{Number}\p{sc=Deva}\p{sc=Thai}]{1,32}`;
+
+/**
+ * Regular expression for matching the name of a chat input command, or of one of its subcommands, subcommand groups or
+ * options
+ *
+ * https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-naming
+ */
+export const ChatInputApplicationCommandNamePattern = new RegExp(`^${ChatInputApplicationCommandNameSource}$`, 'u');
+
 /**
  * https://discord.com/developers/docs/reference#message-formatting-formats
  */
@@ -53,9 +63,10 @@ export const FormattingPatterns = {
 	 *
 	 * The `fullName` (possibly including `name`, `subcommandOrGroup` and `subcommand`) and `id` group properties are present on the `exec` result of this expression
 	 */
-	SlashCommand:
-		// eslint-disable-next-line unicorn/no-unsafe-regex
-		/<\/(?<fullName>(?<name>[-_\p{Letter}\p{Number}\p{sc=Deva}\p{sc=Thai}]{1,32})(?: (?<subcommandOrGroup>[-_\p{Letter}\p{Number}\p{sc=Deva}\p{sc=Thai}]{1,32}))?(?: (?<subcommand>[-_\p{Letter}\p{Number}\p{sc=Deva}\p{sc=Thai}]{1,32}))?):(?<id>\d{17,20})>/u,
+	SlashCommand: new RegExp(
+		`<\\/(?<fullName>(?<name>${ChatInputApplicationCommandNameSource})(?: (?<subcommandOrGroup>${ChatInputApplicationCommandNameSource}))?(?: (?<subcommand>${ChatInputApplicationCommandNameSource}))?):(?<id>\\d{17,20})>`,
+		'u',
+	),
 	/**
 	 * Regular expression for matching a custom emoji, either static or animated
 	 *
@@ -113,3 +124,73 @@ export const FormattingPatterns = {
  * @internal
  */
 Object.freeze(FormattingPatterns);
+
+/**
+ * https://discord.com/developers/docs/reference#message-formatting-timestamp-styles
+ */
+export enum TimestampStyles {
+	/**
+	 * Short time format, consisting of hours and minutes
+	 *
+	 * @example `16:20`
+	 */
+	ShortTime = 't',
+	/**
+	 * Long time format, consisting of hours, minutes, and seconds
+	 *
+	 * @example `16:20:30`
+	 */
+	LongTime = 'T',
+	/**
+	 * Short date format, consisting of day, month, and year
+	 *
+	 * @example `20/04/2021`
+	 */
+	ShortDate = 'd',
+	/**
+	 * Long date format, consisting of day, month, and year
+	 *
+	 * @example `20 April 2021`
+	 */
+	LongDate = 'D',
+	/**
+	 * Short date-time format, consisting of short date and short time formats
+	 *
+	 * @example `20 April 2021 16:20`
+	 */
+	ShortDateTime = 'f',
+	/**
+	 * Long date-time format, consisting of long date, short time, and day of week formats
+	 *
+	 * @example `Tuesday, 20 April 2021 16:20`
+	 */
+	LongDateTime = 'F',
+	/**
+	 * Relative time format, consisting of a relative duration format
+	 *
+	 * @example `2 months ago`
+	 */
+	RelativeTime = 'R',
+}
+
+/**
+ * https://discord.com/developers/docs/reference#message-formatting-guild-navigation-types
+ */
+export enum GuildNavigationMentions {
+	/**
+	 * Customize tab with the server's onboarding prompts
+	 */
+	Customize = '<id:customize>',
+	/**
+	 * Browse Channels tab
+	 */
+	Browse = '<id:browse>',
+	/**
+	 * Server Guide tab
+	 */
+	Guide = '<id:guide>',
+	/**
+	 * Linked Roles tab
+	 */
+	LinkedRoles = '<id:linked-roles>',
+}
@@ -24,10 +24,297 @@ export enum RPCErrorCodes {
  * https://discord.com/developers/docs/topics/opcodes-and-status-codes#rpc-rpc-close-event-codes
  */
 export enum RPCCloseEventCodes {
+	/**
+	 * You connected to the RPC server with an invalid client ID
+	 */
 	InvalidClientId = 4_000,
+	/**
+	 * You connected to the RPC server with an invalid origin
+	 */
 	InvalidOrigin,
+	/**
+	 * You are being rate limited
+	 */
 	RateLimited,
+	/**
+	 * The OAuth2 token associated with a connection was revoked, get a new one!
+	 */
 	TokenRevoked,
+	/**
+	 * The RPC Server version specified in the connection string was not valid
+	 */
 	InvalidVersion,
+	/**
+	 * The encoding specified in the connection string was not valid
+	 */
 	InvalidEncoding,
 }
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#commands-and-events-rpc-commands
+ */
+export enum RPCCommands {
+	/**
+	 * Event dispatch
+	 */
+	Dispatch = 'DISPATCH',
+	/**
+	 * Used to authorize a new client with your app
+	 */
+	Authorize = 'AUTHORIZE',
+	/**
+	 * Used to authenticate an existing client with your app
+	 */
+	Authenticate = 'AUTHENTICATE',
+	/**
+	 * Used to retrieve guild information from the client
+	 */
+	GetGuild = 'GET_GUILD',
+	/**
+	 * Used to retrieve a list of guilds from the client
+	 */
+	GetGuilds = 'GET_GUILDS',
+	/**
+	 * Used to retrieve channel information from the client
+	 */
+	GetChannel = 'GET_CHANNEL',
+	/**
+	 * Used to retrieve a list of channels for a guild from the client
+	 */
+	GetChannels = 'GET_CHANNELS',
+	/**
+	 * Used to subscribe to an RPC event
+	 */
+	Subscribe = 'SUBSCRIBE',
+	/**
+	 * Used to unsubscribe from an RPC event
+	 */
+	Unsubscribe = 'UNSUBSCRIBE',
+	/**
+	 * Used to change voice settings of users in voice channels
+	 */
+	SetUserVoiceSettings = 'SET_USER_VOICE_SETTINGS',
+	/**
+	 * Used to join or leave a voice channel, group dm, or dm
+	 */
+	SelectVoiceChannel = 'SELECT_VOICE_CHANNEL',
+	/**
+	 * Used to get the current voice channel the client is in
+	 */
+	GetSelectedVoiceChannel = 'GET_SELECTED_VOICE_CHANNEL',
+	/**
+	 * Used to join or leave a text channel, group dm, or dm
+	 */
+	SelectTextChannel = 'SELECT_TEXT_CHANNEL',
+	/**
+	 * Used to retrieve the client's voice settings
+	 */
+	GetVoiceSettings = 'GET_VOICE_SETTINGS',
+	/**
+	 * Used to set the client's voice settings
+	 */
+	SetVoiceSettings = 'SET_VOICE_SETTINGS',
+	/**
+	 * Used to send info about certified hardware devices
+	 */
+	SetCertifiedDevices = 'SET_CERTIFIED_DEVICES',
+	/**
+	 * Used to update a user's Rich Presence
+	 */
+	SetActivity = 'SET_ACTIVITY',
+	/**
+	 * Used to consent to a Rich Presence Ask to Join request
+	 */
+	SendActivityJoinInvite = 'SEND_ACTIVITY_JOIN_INVITE',
+	/**
+	 * Used to reject a Rich Presence Ask to Join request
+	 */
+	CloseActivityRequest = 'CLOSE_ACTIVITY_REQUEST',
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#commands-and-events-rpc-events
+ */
+export enum RPCEvents {
+	/**
+	 * Non-subscription event sent immediately after connecting, contains server information
+	 */
+	Ready = 'READY',
+	/**
+	 * Non-subscription event sent when there is an error, including command responses
+	 */
+	Error = 'ERROR',
+	/**
+	 * Sent when a subscribed server's state changes
+	 */
+	GuildStatus = 'GUILD_STATUS',
+	/**
+	 * Sent when a guild is created/joined on the client
+	 */
+	GuildCreate = 'GUILD_CREATE',
+	/**
+	 * Sent when a channel is created/joined on the client
+	 */
+	ChannelCreate = 'CHANNEL_CREATE',
+	/**
+	 * Sent when the client joins a voice channel
+	 */
+	VoiceChannelSelect = 'VOICE_CHANNEL_SELECT',
+	/**
+	 * Sent when a user joins a subscribed voice channel
+	 */
+	VoiceStateCreate = 'VOICE_STATE_CREATE',
+	/**
+	 * Sent when a user's voice state changes in a subscribed voice channel (mute, volume, etc.)
+	 */
+	VoiceStateUpdate = 'VOICE_STATE_UPDATE',
+	/**
+	 * Sent when a user parts a subscribed voice channel
+	 */
+	VoiceStateDelete = 'VOICE_STATE_DELETE',
+	/**
+	 * Sent when the client's voice settings update
+	 */
+	VoiceSettingsUpdate = 'VOICE_SETTINGS_UPDATE',
+	/**
+	 * Sent when the client's voice connection status changes
+	 */
+	VoiceConnectionStatus = 'VOICE_CONNECTION_STATUS',
+	/**
+	 * Sent when a user in a subscribed voice channel speaks
+	 */
+	SpeakingStart = 'SPEAKING_START',
+	/**
+	 * Sent when a user in a subscribed voice channel stops speaking
+	 */
+	SpeakingStop = 'SPEAKING_STOP',
+	/**
+	 * Sent when a message is created in a subscribed text channel
+	 */
+	MessageCreate = 'MESSAGE_CREATE',
+	/**
+	 * Sent when a message is updated in a subscribed text channel
+	 */
+	MessageUpdate = 'MESSAGE_UPDATE',
+	/**
+	 * Sent when a message is deleted in a subscribed text channel
+	 */
+	MessageDelete = 'MESSAGE_DELETE',
+	/**
+	 * Sent when the client receives a notification (mention or new message in eligible channels)
+	 */
+	NotificationCreate = 'NOTIFICATION_CREATE',
+	/**
+	 * Sent when the user clicks a Rich Presence join invite in chat to join a game
+	 */
+	ActivityJoin = 'ACTIVITY_JOIN',
+	/**
+	 * Sent when the user clicks a Rich Presence spectate invite in chat to spectate a game
+	 */
+	ActivitySpectate = 'ACTIVITY_SPECTATE',
+	/**
+	 * Sent when the user receives a Rich Presence Ask to Join request
+	 */
+	ActivityJoinRequest = 'ACTIVITY_JOIN_REQUEST',
+}
+
+/**
+ * Opcodes used in the frame header of messages sent over the IPC transport
+ *
+ * Each frame is prefixed with the opcode and the length of the JSON payload, both as little-endian uint32
+ */
+export enum RPCIPCOpcodes {
+	/**
+	 * Initial handshake, carrying the RPC version and client id
+	 */
+	Handshake,
+	/**
+	 * A regular RPC payload
+	 */
+	Frame,
+	/**
+	 * The connection is being closed
+	 */
+	Close,
+	/**
+	 * Keep the connection alive
+	 */
+	Ping,
+	/**
+	 * Sent in response to a ping
+	 */
+	Pong,
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings-key-types
+ */
+export enum RPCVoiceShortcutKeyComboKeyType {
+	KeyboardKey,
+	MouseButton,
+	KeyboardModifierKey,
+	GamepadButton,
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings-voice-settings-mode-object
+ */
+export enum RPCVoiceSettingsModeType {
+	PushToTalk = 'PUSH_TO_TALK',
+	VoiceActivity = 'VOICE_ACTIVITY',
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setcertifieddevices-device-type
+ */
+export enum RPCDeviceType {
+	AudioInput = 'audioinput',
+	AudioOutput = 'audiooutput',
+	VideoInput = 'videoinput',
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voiceconnectionstatus-voice-connection-states
+ */
+export enum RPCVoiceConnectionStates {
+	/**
+	 * TCP disconnected
+	 */
+	Disconnected = 'DISCONNECTED',
+	/**
+	 * Waiting for voice endpoint
+	 */
+	AwaitingEndpoint = 'AWAITING_ENDPOINT',
+	/**
+	 * TCP authenticating
+	 */
+	Authenticating = 'AUTHENTICATING',
+	/**
+	 * TCP connecting
+	 */
+	Connecting = 'CONNECTING',
+	/**
+	 * TCP connected
+	 */
+	Connected = 'CONNECTED',
+	/**
+	 * TCP connected, Voice disconnected
+	 */
+	VoiceDisconnected = 'VOICE_DISCONNECTED',
+	/**
+	 * TCP connected, Voice connecting
+	 */
+	VoiceConnecting = 'VOICE_CONNECTING',
+	/**
+	 * TCP connected, Voice connected
+	 */
+	VoiceConnected = 'VOICE_CONNECTED',
+	/**
+	 * No route to host
+	 */
+	NoRoute = 'NO_ROUTE',
+	/**
+	 * WebRTC ice checking
+	 */
+	ICEChecking = 'ICE_CHECKING',
+}
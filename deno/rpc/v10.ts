@@ -1 +1,1435 @@
+/**
+ * Types extracted from https://discord.com/developers/docs/topics/rpc
+ */
+
+import type { Snowflake } from '../globals.ts';
+import type {
+	APIMessage,
+	APIUser,
+	ChannelType,
+	GatewayActivity,
+	GatewayActivityButton,
+	OAuth2Scopes,
+} from '../payloads/v10/mod.ts';
+import type {
+	RPCCommands,
+	RPCDeviceType,
+	RPCErrorCodes,
+	RPCEvents,
+	RPCIPCOpcodes,
+	RPCVoiceConnectionStates,
+	RPCVoiceSettingsModeType,
+	RPCVoiceShortcutKeyComboKeyType,
+} from './common.ts';
+
 export * from './common.ts';
+
+export const RPCVersion = '1';
+
+export type RPCCommandPayload =
+	| RPCAuthenticateCommand
+	| RPCAuthorizeCommand
+	| RPCCloseActivityRequestCommand
+	| RPCGetChannelCommand
+	| RPCGetChannelsCommand
+	| RPCGetGuildCommand
+	| RPCGetGuildsCommand
+	| RPCGetSelectedVoiceChannelCommand
+	| RPCGetVoiceSettingsCommand
+	| RPCSelectTextChannelCommand
+	| RPCSelectVoiceChannelCommand
+	| RPCSendActivityJoinInviteCommand
+	| RPCSetActivityCommand
+	| RPCSetCertifiedDevicesCommand
+	| RPCSetUserVoiceSettingsCommand
+	| RPCSetVoiceSettingsCommand
+	| RPCSubscribeCommand
+	| RPCUnsubscribeCommand;
+
+export type RPCCommandResponsePayload =
+	| RPCAuthenticateResponse
+	| RPCAuthorizeResponse
+	| RPCCloseActivityRequestResponse
+	| RPCCommandErrorResponse
+	| RPCGetChannelResponse
+	| RPCGetChannelsResponse
+	| RPCGetGuildResponse
+	| RPCGetGuildsResponse
+	| RPCGetSelectedVoiceChannelResponse
+	| RPCGetVoiceSettingsResponse
+	| RPCSelectTextChannelResponse
+	| RPCSelectVoiceChannelResponse
+	| RPCSendActivityJoinInviteResponse
+	| RPCSetActivityResponse
+	| RPCSetCertifiedDevicesResponse
+	| RPCSetUserVoiceSettingsResponse
+	| RPCSetVoiceSettingsResponse
+	| RPCSubscribeResponse
+	| RPCUnsubscribeResponse;
+
+export type RPCDispatchPayload =
+	| RPCActivityJoinDispatch
+	| RPCActivityJoinRequestDispatch
+	| RPCActivitySpectateDispatch
+	| RPCChannelCreateDispatch
+	| RPCErrorDispatch
+	| RPCGuildCreateDispatch
+	| RPCGuildStatusDispatch
+	| RPCMessageCreateDispatch
+	| RPCMessageDeleteDispatch
+	| RPCMessageUpdateDispatch
+	| RPCNotificationCreateDispatch
+	| RPCReadyDispatch
+	| RPCSpeakingStartDispatch
+	| RPCSpeakingStopDispatch
+	| RPCVoiceChannelSelectDispatch
+	| RPCVoiceConnectionStatusDispatch
+	| RPCVoiceSettingsUpdateDispatch
+	| RPCVoiceStateCreateDispatch
+	| RPCVoiceStateDeleteDispatch
+	| RPCVoiceStateUpdateDispatch;
+
+export type RPCReceivePayload = RPCCommandResponsePayload | RPCDispatchPayload;
+
+// #region IPC
+
+/**
+ * The payload sent with {@link RPCIPCOpcodes.Handshake} when connecting over IPC
+ */
+export interface RPCIPCHandshakeData {
+	/**
+	 * The RPC version
+	 */
+	v: 1;
+	/**
+	 * The id of the application connecting
+	 */
+	client_id: Snowflake;
+}
+
+/**
+ * A decoded IPC frame
+ *
+ * On the wire, each frame is prefixed with the opcode and the byte length of the JSON payload, both as little-endian uint32
+ */
+export interface RPCIPCFrame<Op extends RPCIPCOpcodes = RPCIPCOpcodes, D = unknown> {
+	/**
+	 * The IPC opcode of the frame
+	 */
+	op: Op;
+	/**
+	 * The byte length of the JSON payload
+	 */
+	length: number;
+	/**
+	 * The decoded JSON payload
+	 */
+	d: D;
+}
+
+// #endregion IPC
+
+// #region Shared Structures
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getguilds-get-guilds-response-structure
+ */
+export interface RPCPartialGuild {
+	/**
+	 * Guild id
+	 */
+	id: Snowflake;
+	/**
+	 * Guild name
+	 */
+	name: string;
+	/**
+	 * Guild icon url
+	 */
+	icon_url?: string | null;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannels-get-channels-response-structure
+ */
+export interface RPCPartialChannel {
+	/**
+	 * Channel id
+	 */
+	id: Snowflake;
+	/**
+	 * Channel name
+	 */
+	name: string;
+	/**
+	 * Channel type
+	 */
+	type: ChannelType;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannel-get-channel-response-structure
+ */
+export interface RPCChannel extends RPCPartialChannel {
+	/**
+	 * Channel's guild id
+	 */
+	guild_id: Snowflake | null;
+	/**
+	 * Channel topic
+	 */
+	topic: string | null;
+	/**
+	 * (voice) bitrate of voice channel
+	 */
+	bitrate: number | null;
+	/**
+	 * (voice) user limit of voice channel (0 for none)
+	 */
+	user_limit: number | null;
+	/**
+	 * Position of channel in channel list
+	 */
+	position: number;
+	/**
+	 * (voice) channel's voice states
+	 */
+	voice_states: RPCVoiceState[];
+	/**
+	 * (text) channel's messages
+	 */
+	messages: APIMessage[];
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicestatecreate-example-voice-state-dispatch-payload
+ */
+export interface RPCVoiceState {
+	/**
+	 * The voice state of the user
+	 */
+	voice_state: RPCVoiceStateFlags;
+	/**
+	 * The user this voice state is for
+	 */
+	user: APIUser;
+	/**
+	 * The nickname of the user, if any
+	 */
+	nick: string | null;
+	/**
+	 * The local volume of the user
+	 */
+	volume: number;
+	/**
+	 * Whether the user is locally muted
+	 */
+	mute: boolean;
+	/**
+	 * The local pan of the user
+	 */
+	pan: RPCPan;
+}
+
+export interface RPCVoiceStateFlags {
+	/**
+	 * Whether this user is muted by the server
+	 */
+	mute: boolean;
+	/**
+	 * Whether this user is deafened by the server
+	 */
+	deaf: boolean;
+	/**
+	 * Whether this user is locally muted
+	 */
+	self_mute: boolean;
+	/**
+	 * Whether this user is locally deafened
+	 */
+	self_deaf: boolean;
+	/**
+	 * Whether this user's permission to speak is denied
+	 */
+	suppress: boolean;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setuservoicesettings-pan-object
+ */
+export interface RPCPan {
+	/**
+	 * Left pan of user (min: 0.0, max: 1.0)
+	 */
+	left: number;
+	/**
+	 * Right pan of user (min: 0.0, max: 1.0)
+	 */
+	right: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings-voice-settings-object
+ */
+export interface RPCVoiceSettings {
+	/**
+	 * Input settings
+	 */
+	input: RPCVoiceSettingsInputOutput;
+	/**
+	 * Output settings
+	 */
+	output: RPCVoiceSettingsInputOutput;
+	/**
+	 * Voice mode settings
+	 */
+	mode: RPCVoiceSettingsMode;
+	/**
+	 * State of automatic gain control
+	 */
+	automatic_gain_control: boolean;
+	/**
+	 * State of echo cancellation
+	 */
+	echo_cancellation: boolean;
+	/**
+	 * State of noise suppression
+	 */
+	noise_suppression: boolean;
+	/**
+	 * State of voice quality of service
+	 */
+	qos: boolean;
+	/**
+	 * State of silence warning notice
+	 */
+	silence_warning: boolean;
+	/**
+	 * State of self-deafen
+	 */
+	deaf: boolean;
+	/**
+	 * State of self-mute
+	 */
+	mute: boolean;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings-voice-settings-input-object
+ */
+export interface RPCVoiceSettingsInputOutput {
+	/**
+	 * Device id
+	 */
+	device_id: string;
+	/**
+	 * Input voice level (min: 0, max: 100)
+	 */
+	volume: number;
+	/**
+	 * Array of read-only device objects containing `id` and `name` string keys
+	 */
+	available_devices: RPCAvailableDevice[];
+}
+
+export interface RPCAvailableDevice {
+	/**
+	 * Device id
+	 */
+	id: string;
+	/**
+	 * Device name
+	 */
+	name: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings-voice-settings-mode-object
+ */
+export interface RPCVoiceSettingsMode {
+	/**
+	 * Voice setting mode type
+	 */
+	type: RPCVoiceSettingsModeType;
+	/**
+	 * Voice activity threshold automatically sets its threshold
+	 */
+	auto_threshold: boolean;
+	/**
+	 * Threshold for voice activity (in dB) (min: -100, max: 0)
+	 */
+	threshold: number;
+	/**
+	 * Shortcut key combos for PTT
+	 */
+	shortcut: RPCShortcutKeyCombo[];
+	/**
+	 * The PTT release delay (in ms) (min: 0, max: 2000)
+	 */
+	delay: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings-shortcut-key-combo-object
+ */
+export interface RPCShortcutKeyCombo {
+	/**
+	 * Type of key
+	 */
+	type: RPCVoiceShortcutKeyComboKeyType;
+	/**
+	 * Key code
+	 */
+	code: number;
+	/**
+	 * Key name
+	 */
+	name: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setcertifieddevices-device-object
+ */
+export interface RPCDevice {
+	/**
+	 * The type of device
+	 */
+	type: RPCDeviceType;
+	/**
+	 * The device's Windows UUID
+	 */
+	id: string;
+	/**
+	 * The hardware vendor
+	 */
+	vendor: RPCDeviceVendorOrModel;
+	/**
+	 * The model of the product
+	 */
+	model: RPCDeviceVendorOrModel;
+	/**
+	 * UUIDs of related devices
+	 */
+	related: string[];
+	/**
+	 * If the device's native echo cancellation is enabled
+	 */
+	echo_cancellation?: boolean;
+	/**
+	 * If the device's native noise suppression is enabled
+	 */
+	noise_suppression?: boolean;
+	/**
+	 * If the device's native automatic gain control is enabled
+	 */
+	automatic_gain_control?: boolean;
+	/**
+	 * If the device is hardware muted
+	 */
+	hardware_mute?: boolean;
+}
+
+export interface RPCDeviceVendorOrModel {
+	/**
+	 * Name of the vendor or model
+	 */
+	name: string;
+	/**
+	 * Url for the vendor or model
+	 */
+	url: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setactivity-set-activity-argument-structure
+ */
+export type RPCActivity = Partial<
+	Pick<GatewayActivity, 'assets' | 'details' | 'instance' | 'party' | 'secrets' | 'state' | 'timestamps' | 'type'>
+> & {
+	/**
+	 * The custom buttons shown in the Rich Presence (max 2)
+	 */
+	buttons?: GatewayActivityButton[];
+};
+
+// #endregion Shared Structures
+
+// #region Commands
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authorize
+ */
+export type RPCAuthorizeCommand = CommandPayload<RPCCommands.Authorize, RPCAuthorizeArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authorize-authorize-argument-structure
+ */
+export interface RPCAuthorizeArgs {
+	/**
+	 * Scopes to authorize
+	 */
+	scopes: OAuth2Scopes[];
+	/**
+	 * OAuth2 application id
+	 */
+	client_id: Snowflake;
+	/**
+	 * One-time use RPC token
+	 */
+	rpc_token?: string;
+	/**
+	 * Username to create a guest account with if the user does not have Discord
+	 */
+	username?: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authorize
+ */
+export type RPCAuthorizeResponse = ResponsePayload<RPCCommands.Authorize, RPCAuthorizeResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authorize-authorize-response-structure
+ */
+export interface RPCAuthorizeResultData {
+	/**
+	 * OAuth2 authorization code
+	 */
+	code: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authenticate
+ */
+export type RPCAuthenticateCommand = CommandPayload<RPCCommands.Authenticate, RPCAuthenticateArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authenticate-authenticate-argument-structure
+ */
+export interface RPCAuthenticateArgs {
+	/**
+	 * OAuth2 access token
+	 */
+	access_token: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authenticate
+ */
+export type RPCAuthenticateResponse = ResponsePayload<RPCCommands.Authenticate, RPCAuthenticateResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authenticate-authenticate-response-structure
+ */
+export interface RPCAuthenticateResultData {
+	/**
+	 * The authed user
+	 */
+	user: APIUser;
+	/**
+	 * Authorized scopes
+	 */
+	scopes: OAuth2Scopes[];
+	/**
+	 * Expiration date of OAuth2 token
+	 */
+	expires: string;
+	/**
+	 * Application the user authorized
+	 */
+	application: RPCAuthenticateResultApplication;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#authenticate-oauth2-application-structure
+ */
+export interface RPCAuthenticateResultApplication {
+	/**
+	 * Application description
+	 */
+	description: string;
+	/**
+	 * Hash of the icon
+	 */
+	icon: string | null;
+	/**
+	 * Application client id
+	 */
+	id: Snowflake;
+	/**
+	 * Array of rpc origin urls
+	 */
+	rpc_origins?: string[];
+	/**
+	 * Application name
+	 */
+	name: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getguild
+ */
+export type RPCGetGuildCommand = CommandPayload<RPCCommands.GetGuild, RPCGetGuildArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getguild-get-guild-argument-structure
+ */
+export interface RPCGetGuildArgs {
+	/**
+	 * Id of the guild to get
+	 */
+	guild_id: Snowflake;
+	/**
+	 * Asynchronously get guild with time to wait before timing out
+	 */
+	timeout?: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getguild
+ */
+export type RPCGetGuildResponse = ResponsePayload<RPCCommands.GetGuild, RPCGetGuildResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getguild-get-guild-response-structure
+ */
+export interface RPCGetGuildResultData extends RPCPartialGuild {
+	/**
+	 * Members of the guild (deprecated; always empty array)
+	 */
+	members: [];
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getguilds
+ */
+export type RPCGetGuildsCommand = CommandPayload<RPCCommands.GetGuilds, Record<string, never>>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getguilds
+ */
+export type RPCGetGuildsResponse = ResponsePayload<RPCCommands.GetGuilds, RPCGetGuildsResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getguilds-get-guilds-response-structure
+ */
+export interface RPCGetGuildsResultData {
+	/**
+	 * The guilds the user is in
+	 */
+	guilds: RPCPartialGuild[];
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannel
+ */
+export type RPCGetChannelCommand = CommandPayload<RPCCommands.GetChannel, RPCGetChannelArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannel-get-channel-argument-structure
+ */
+export interface RPCGetChannelArgs {
+	/**
+	 * Id of the channel to get
+	 */
+	channel_id: Snowflake;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannel
+ */
+export type RPCGetChannelResponse = ResponsePayload<RPCCommands.GetChannel, RPCGetChannelResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannel-get-channel-response-structure
+ */
+export type RPCGetChannelResultData = RPCChannel;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannels
+ */
+export type RPCGetChannelsCommand = CommandPayload<RPCCommands.GetChannels, RPCGetChannelsArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannels-get-channels-argument-structure
+ */
+export interface RPCGetChannelsArgs {
+	/**
+	 * Id of the guild to get channels for
+	 */
+	guild_id: Snowflake;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannels
+ */
+export type RPCGetChannelsResponse = ResponsePayload<RPCCommands.GetChannels, RPCGetChannelsResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getchannels-get-channels-response-structure
+ */
+export interface RPCGetChannelsResultData {
+	/**
+	 * Guild channels the user is in
+	 */
+	channels: RPCPartialChannel[];
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#subscribe
+ */
+export type RPCSubscribeCommand = SubscriptionCommandPayload<RPCCommands.Subscribe>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#subscribe
+ */
+export type RPCSubscribeResponse = ResponsePayload<RPCCommands.Subscribe, RPCSubscribeResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#subscribe-example-subscribe-response-payload
+ */
+export interface RPCSubscribeResultData {
+	/**
+	 * The event that was subscribed to
+	 */
+	evt: RPCSubscribableEvents;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#unsubscribe
+ */
+export type RPCUnsubscribeCommand = SubscriptionCommandPayload<RPCCommands.Unsubscribe>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#unsubscribe
+ */
+export type RPCUnsubscribeResponse = ResponsePayload<RPCCommands.Unsubscribe, RPCUnsubscribeResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#unsubscribe-example-unsubscribe-response-payload
+ */
+export type RPCUnsubscribeResultData = RPCSubscribeResultData;
+
+/**
+ * The events that can be subscribed to, and the arguments they require
+ *
+ * https://discord.com/developers/docs/topics/rpc#commands-and-events-rpc-events
+ */
+export interface RPCSubscribeArgsMap {
+	[RPCEvents.GuildStatus]: RPCGuildStatusSubscribeArgs;
+	[RPCEvents.GuildCreate]: Record<string, never>;
+	[RPCEvents.ChannelCreate]: Record<string, never>;
+	[RPCEvents.VoiceChannelSelect]: Record<string, never>;
+	[RPCEvents.VoiceStateCreate]: RPCChannelSubscribeArgs;
+	[RPCEvents.VoiceStateUpdate]: RPCChannelSubscribeArgs;
+	[RPCEvents.VoiceStateDelete]: RPCChannelSubscribeArgs;
+	[RPCEvents.VoiceSettingsUpdate]: Record<string, never>;
+	[RPCEvents.VoiceConnectionStatus]: Record<string, never>;
+	[RPCEvents.SpeakingStart]: RPCChannelSubscribeArgs;
+	[RPCEvents.SpeakingStop]: RPCChannelSubscribeArgs;
+	[RPCEvents.MessageCreate]: RPCChannelSubscribeArgs;
+	[RPCEvents.MessageUpdate]: RPCChannelSubscribeArgs;
+	[RPCEvents.MessageDelete]: RPCChannelSubscribeArgs;
+	[RPCEvents.NotificationCreate]: Record<string, never>;
+	[RPCEvents.ActivityJoin]: Record<string, never>;
+	[RPCEvents.ActivitySpectate]: Record<string, never>;
+	[RPCEvents.ActivityJoinRequest]: Record<string, never>;
+}
+
+export type RPCSubscribableEvents = keyof RPCSubscribeArgsMap;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#guildstatus-guild-status-argument-structure
+ */
+export interface RPCGuildStatusSubscribeArgs {
+	/**
+	 * Id of guild to listen to updates of
+	 */
+	guild_id: Snowflake;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicestatecreatevoicestateupdatevoicestatedelete-voice-state-argument-structure
+ */
+export interface RPCChannelSubscribeArgs {
+	/**
+	 * Id of channel to listen to updates of
+	 */
+	channel_id: Snowflake;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setuservoicesettings
+ */
+export type RPCSetUserVoiceSettingsCommand = CommandPayload<
+	RPCCommands.SetUserVoiceSettings,
+	RPCSetUserVoiceSettingsArgs
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setuservoicesettings-set-user-voice-settings-argument-and-response-structure
+ */
+export interface RPCSetUserVoiceSettingsArgs {
+	/**
+	 * User id
+	 */
+	user_id: Snowflake;
+	/**
+	 * Set the pan of the user
+	 */
+	pan?: RPCPan;
+	/**
+	 * Set the volume of user (defaults to 100, min 0, max 200)
+	 */
+	volume?: number;
+	/**
+	 * Set the mute state of the user
+	 */
+	mute?: boolean;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setuservoicesettings
+ */
+export type RPCSetUserVoiceSettingsResponse = ResponsePayload<
+	RPCCommands.SetUserVoiceSettings,
+	RPCSetUserVoiceSettingsResultData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setuservoicesettings-set-user-voice-settings-argument-and-response-structure
+ */
+export type RPCSetUserVoiceSettingsResultData = RPCSetUserVoiceSettingsArgs;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#selectvoicechannel
+ */
+export type RPCSelectVoiceChannelCommand = CommandPayload<RPCCommands.SelectVoiceChannel, RPCSelectVoiceChannelArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#selectvoicechannel-select-voice-channel-argument-structure
+ */
+export interface RPCSelectVoiceChannelArgs {
+	/**
+	 * Channel id to join (or `null` to leave)
+	 */
+	channel_id: Snowflake | null;
+	/**
+	 * Asynchronously join channel with time to wait before timing out
+	 */
+	timeout?: number;
+	/**
+	 * Forces a user to join a voice channel
+	 */
+	force?: boolean;
+	/**
+	 * After joining the voice channel, navigate to it in the client
+	 */
+	navigate?: boolean;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#selectvoicechannel
+ */
+export type RPCSelectVoiceChannelResponse = ResponsePayload<
+	RPCCommands.SelectVoiceChannel,
+	RPCSelectVoiceChannelResultData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#selectvoicechannel
+ */
+export type RPCSelectVoiceChannelResultData = RPCChannel | null;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getselectedvoicechannel
+ */
+export type RPCGetSelectedVoiceChannelCommand = CommandPayload<
+	RPCCommands.GetSelectedVoiceChannel,
+	Record<string, never>
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getselectedvoicechannel
+ */
+export type RPCGetSelectedVoiceChannelResponse = ResponsePayload<
+	RPCCommands.GetSelectedVoiceChannel,
+	RPCGetSelectedVoiceChannelResultData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getselectedvoicechannel
+ */
+export type RPCGetSelectedVoiceChannelResultData = RPCChannel | null;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#selecttextchannel
+ */
+export type RPCSelectTextChannelCommand = CommandPayload<RPCCommands.SelectTextChannel, RPCSelectTextChannelArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#selecttextchannel-select-text-channel-argument-structure
+ */
+export interface RPCSelectTextChannelArgs {
+	/**
+	 * Channel id to join (or `null` to leave)
+	 */
+	channel_id: Snowflake | null;
+	/**
+	 * Asynchronously join channel with time to wait before timing out
+	 */
+	timeout?: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#selecttextchannel
+ */
+export type RPCSelectTextChannelResponse = ResponsePayload<
+	RPCCommands.SelectTextChannel,
+	RPCSelectTextChannelResultData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#selecttextchannel
+ */
+export type RPCSelectTextChannelResultData = RPCChannel | null;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings
+ */
+export type RPCGetVoiceSettingsCommand = CommandPayload<RPCCommands.GetVoiceSettings, Record<string, never>>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings
+ */
+export type RPCGetVoiceSettingsResponse = ResponsePayload<RPCCommands.GetVoiceSettings, RPCGetVoiceSettingsResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#getvoicesettings-get-voice-settings-response-structure
+ */
+export type RPCGetVoiceSettingsResultData = RPCVoiceSettings;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setvoicesettings
+ */
+export type RPCSetVoiceSettingsCommand = CommandPayload<RPCCommands.SetVoiceSettings, RPCSetVoiceSettingsArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setvoicesettings-set-voice-settings-argument-and-response-structure
+ */
+export type RPCSetVoiceSettingsArgs = Partial<
+	Omit<RPCVoiceSettings, 'input' | 'mode' | 'output'> & {
+		/**
+		 * Input settings
+		 */
+		input: Partial<Omit<RPCVoiceSettingsInputOutput, 'available_devices'>>;
+		/**
+		 * Output settings
+		 */
+		output: Partial<Omit<RPCVoiceSettingsInputOutput, 'available_devices'>>;
+		/**
+		 * Voice mode settings
+		 */
+		mode: Partial<RPCVoiceSettingsMode>;
+	}
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setvoicesettings
+ */
+export type RPCSetVoiceSettingsResponse = ResponsePayload<RPCCommands.SetVoiceSettings, RPCSetVoiceSettingsResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setvoicesettings-set-voice-settings-argument-and-response-structure
+ */
+export type RPCSetVoiceSettingsResultData = RPCVoiceSettings;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setcertifieddevices
+ */
+export type RPCSetCertifiedDevicesCommand = CommandPayload<RPCCommands.SetCertifiedDevices, RPCSetCertifiedDevicesArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setcertifieddevices-set-certified-devices-argument-structure
+ */
+export interface RPCSetCertifiedDevicesArgs {
+	/**
+	 * A list of devices for your manufacturer, in order of priority
+	 */
+	devices: RPCDevice[];
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setcertifieddevices
+ */
+export type RPCSetCertifiedDevicesResponse = ResponsePayload<RPCCommands.SetCertifiedDevices, null>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setactivity
+ */
+export type RPCSetActivityCommand = CommandPayload<RPCCommands.SetActivity, RPCSetActivityArgs>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setactivity-set-activity-argument-structure
+ */
+export interface RPCSetActivityArgs {
+	/**
+	 * The application's process id
+	 */
+	pid: number;
+	/**
+	 * The rich presence to assign to the user, or omit it to clear the activity
+	 */
+	activity?: RPCActivity;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setactivity
+ */
+export type RPCSetActivityResponse = ResponsePayload<RPCCommands.SetActivity, RPCSetActivityResultData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#setactivity-example-set-activity-response-payload
+ */
+export type RPCSetActivityResultData = GatewayActivity | null;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#sendactivityjoininvite
+ */
+export type RPCSendActivityJoinInviteCommand = CommandPayload<
+	RPCCommands.SendActivityJoinInvite,
+	RPCSendActivityJoinInviteArgs
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#sendactivityjoininvite-send-activity-join-invite-argument-structure
+ */
+export interface RPCSendActivityJoinInviteArgs {
+	/**
+	 * The id of the requesting user
+	 */
+	user_id: Snowflake;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#sendactivityjoininvite
+ */
+export type RPCSendActivityJoinInviteResponse = ResponsePayload<RPCCommands.SendActivityJoinInvite, null>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#closeactivityrequest
+ */
+export type RPCCloseActivityRequestCommand = CommandPayload<
+	RPCCommands.CloseActivityRequest,
+	RPCCloseActivityRequestArgs
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#closeactivityrequest-close-activity-request-argument-structure
+ */
+export interface RPCCloseActivityRequestArgs {
+	/**
+	 * The id of the requesting user
+	 */
+	user_id: Snowflake;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#closeactivityrequest
+ */
+export type RPCCloseActivityRequestResponse = ResponsePayload<RPCCommands.CloseActivityRequest, null>;
+
+/**
+ * Sent in response to a command that could not be executed
+ *
+ * https://discord.com/developers/docs/topics/rpc#error
+ */
+export interface RPCCommandErrorResponse extends BasePayload {
+	cmd: Exclude<RPCCommands, RPCCommands.Dispatch>;
+	nonce: string;
+	evt: RPCEvents.Error;
+	/**
+	 * Error data
+	 */
+	data: RPCErrorDispatchData;
+}
+
+// #endregion Commands
+
+// #region Dispatch Payloads
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#ready
+ */
+export type RPCReadyDispatch = DispatchPayload<RPCEvents.Ready, RPCReadyDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#ready-ready-dispatch-data-structure
+ */
+export interface RPCReadyDispatchData {
+	/**
+	 * RPC version
+	 */
+	v: 1;
+	/**
+	 * Server configuration
+	 */
+	config: RPCServerConfiguration;
+	/**
+	 * The user to whom you are connected
+	 */
+	user: APIUser;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#ready-rpc-server-configuration-object
+ */
+export interface RPCServerConfiguration {
+	/**
+	 * Server's cdn
+	 */
+	cdn_host: string;
+	/**
+	 * Server's api endpoint
+	 */
+	api_endpoint: string;
+	/**
+	 * Server's environment
+	 */
+	environment: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#error
+ */
+export type RPCErrorDispatch = DispatchPayload<RPCEvents.Error, RPCErrorDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#error-error-data-structure
+ */
+export interface RPCErrorDispatchData {
+	/**
+	 * RPC Error Code
+	 */
+	code: RPCErrorCodes;
+	/**
+	 * Error description
+	 */
+	message: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#guildstatus
+ */
+export type RPCGuildStatusDispatch = DispatchPayload<RPCEvents.GuildStatus, RPCGuildStatusDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#guildstatus-guild-status-dispatch-data-structure
+ */
+export interface RPCGuildStatusDispatchData {
+	/**
+	 * Guild with requested id
+	 */
+	guild: RPCPartialGuild;
+	/**
+	 * Number of online users in guild
+	 *
+	 * @deprecated This will always be 0
+	 */
+	online: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#guildcreate
+ */
+export type RPCGuildCreateDispatch = DispatchPayload<RPCEvents.GuildCreate, RPCGuildCreateDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#guildcreate-guild-create-dispatch-data-structure
+ */
+export type RPCGuildCreateDispatchData = Omit<RPCPartialGuild, 'icon_url'>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#channelcreate
+ */
+export type RPCChannelCreateDispatch = DispatchPayload<RPCEvents.ChannelCreate, RPCChannelCreateDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#channelcreate-channel-create-dispatch-data-structure
+ */
+export type RPCChannelCreateDispatchData = RPCPartialChannel;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicechannelselect
+ */
+export type RPCVoiceChannelSelectDispatch = DispatchPayload<
+	RPCEvents.VoiceChannelSelect,
+	RPCVoiceChannelSelectDispatchData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicechannelselect-voice-channel-select-dispatch-data-structure
+ */
+export interface RPCVoiceChannelSelectDispatchData {
+	/**
+	 * Id of channel (`null` if none)
+	 */
+	channel_id: Snowflake | null;
+	/**
+	 * Id of guild (`null` if none)
+	 */
+	guild_id?: Snowflake | null;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicestatecreatevoicestateupdatevoicestatedelete
+ */
+export type RPCVoiceStateCreateDispatch = DispatchPayload<RPCEvents.VoiceStateCreate, RPCVoiceStateDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicestatecreatevoicestateupdatevoicestatedelete
+ */
+export type RPCVoiceStateUpdateDispatch = DispatchPayload<RPCEvents.VoiceStateUpdate, RPCVoiceStateDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicestatecreatevoicestateupdatevoicestatedelete
+ */
+export type RPCVoiceStateDeleteDispatch = DispatchPayload<RPCEvents.VoiceStateDelete, RPCVoiceStateDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicestatecreatevoicestateupdatevoicestatedelete-example-voice-state-dispatch-payload
+ */
+export type RPCVoiceStateDispatchData = RPCVoiceState;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicesettingsupdate
+ */
+export type RPCVoiceSettingsUpdateDispatch = DispatchPayload<
+	RPCEvents.VoiceSettingsUpdate,
+	RPCVoiceSettingsUpdateDispatchData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voicesettingsupdate
+ */
+export type RPCVoiceSettingsUpdateDispatchData = RPCVoiceSettings;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voiceconnectionstatus
+ */
+export type RPCVoiceConnectionStatusDispatch = DispatchPayload<
+	RPCEvents.VoiceConnectionStatus,
+	RPCVoiceConnectionStatusDispatchData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#voiceconnectionstatus-voice-connection-status-dispatch-data-structure
+ */
+export interface RPCVoiceConnectionStatusDispatchData {
+	/**
+	 * One of the voice connection states listed below
+	 */
+	state: RPCVoiceConnectionStates;
+	/**
+	 * Hostname of the connected voice server
+	 */
+	hostname: string;
+	/**
+	 * Last 20 pings (in ms)
+	 */
+	pings: RPCVoiceConnectionStatusPing[];
+	/**
+	 * Average ping (in ms)
+	 */
+	average_ping: number;
+	/**
+	 * Last ping (in ms)
+	 */
+	last_ping: number;
+}
+
+export interface RPCVoiceConnectionStatusPing {
+	/**
+	 * The time the ping was taken at, in milliseconds since epoch
+	 */
+	time: number;
+	/**
+	 * The ping (in ms)
+	 */
+	value: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#speakingstartspeakingstop
+ */
+export type RPCSpeakingStartDispatch = DispatchPayload<RPCEvents.SpeakingStart, RPCSpeakingDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#speakingstartspeakingstop
+ */
+export type RPCSpeakingStopDispatch = DispatchPayload<RPCEvents.SpeakingStop, RPCSpeakingDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#speakingstartspeakingstop-speaking-start-stop-dispatch-data-structure
+ */
+export interface RPCSpeakingDispatchData {
+	/**
+	 * Id of user who started/stopped speaking
+	 */
+	user_id: Snowflake;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#messagecreatemessageupdatemessagedelete
+ */
+export type RPCMessageCreateDispatch = DispatchPayload<RPCEvents.MessageCreate, RPCMessageDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#messagecreatemessageupdatemessagedelete
+ */
+export type RPCMessageUpdateDispatch = DispatchPayload<RPCEvents.MessageUpdate, RPCMessageDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#messagecreatemessageupdatemessagedelete
+ */
+export type RPCMessageDeleteDispatch = DispatchPayload<RPCEvents.MessageDelete, RPCMessageDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#messagecreatemessageupdatemessagedelete-message-argument-structure
+ */
+export interface RPCMessageDispatchData {
+	/**
+	 * Id of the channel the message was sent in
+	 */
+	channel_id: Snowflake;
+	/**
+	 * The message that was created, updated or deleted
+	 */
+	message: APIMessage;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#notificationcreate
+ */
+export type RPCNotificationCreateDispatch = DispatchPayload<
+	RPCEvents.NotificationCreate,
+	RPCNotificationCreateDispatchData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#notificationcreate-notification-create-dispatch-data-structure
+ */
+export interface RPCNotificationCreateDispatchData {
+	/**
+	 * Id of channel where notification occurred
+	 */
+	channel_id: Snowflake;
+	/**
+	 * Message that generated this notification
+	 */
+	message: APIMessage;
+	/**
+	 * Icon url of the notification
+	 */
+	icon_url: string;
+	/**
+	 * Title of the notification
+	 */
+	title: string;
+	/**
+	 * Body of the notification
+	 */
+	body: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#activityjoin
+ */
+export type RPCActivityJoinDispatch = DispatchPayload<RPCEvents.ActivityJoin, RPCActivitySecretDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#activityspectate
+ */
+export type RPCActivitySpectateDispatch = DispatchPayload<RPCEvents.ActivitySpectate, RPCActivitySecretDispatchData>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#activityjoin-activity-join-dispatch-data-structure
+ */
+export interface RPCActivitySecretDispatchData {
+	/**
+	 * The join or spectate secret for the given invite
+	 */
+	secret: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#activityjoinrequest
+ */
+export type RPCActivityJoinRequestDispatch = DispatchPayload<
+	RPCEvents.ActivityJoinRequest,
+	RPCActivityJoinRequestDispatchData
+>;
+
+/**
+ * https://discord.com/developers/docs/topics/rpc#activityjoinrequest-activity-join-request-data-structure
+ */
+export interface RPCActivityJoinRequestDispatchData {
+	/**
+	 * Information about the user requesting to join the user's game
+	 */
+	user: APIUser;
+}
+
+// #endregion Dispatch Payloads
+
+// #region Shared
+interface BasePayload {
+	/**
+	 * Payload command
+	 */
+	cmd: RPCCommands;
+	/**
+	 * Unique string used once for replies from the server
+	 */
+	nonce: string | null;
+	/**
+	 * Subscription event
+	 */
+	evt?: RPCEvents | null;
+}
+
+interface CommandPayload<Cmd extends RPCCommands, Args> extends BasePayload {
+	cmd: Cmd;
+	nonce: string;
+	/**
+	 * Arguments for the command
+	 */
+	args: Args;
+}
+
+type SubscriptionCommandPayload<Cmd extends RPCCommands.Subscribe | RPCCommands.Unsubscribe> = {
+	[Event in RPCSubscribableEvents]: CommandPayload<Cmd, RPCSubscribeArgsMap[Event]> & {
+		evt: Event;
+	};
+}[RPCSubscribableEvents];
+
+interface ResponsePayload<Cmd extends RPCCommands, D> extends BasePayload {
+	cmd: Cmd;
+	nonce: string;
+	evt: null;
+	/**
+	 * Response data
+	 */
+	data: D;
+}
+
+interface DispatchPayload<Event extends RPCEvents, D> extends BasePayload {
+	cmd: RPCCommands.Dispatch;
+	nonce: null;
+	evt: Event;
+	/**
+	 * Event data
+	 */
+	data: D;
+}
+// #endregion Shared
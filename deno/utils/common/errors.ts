@@ -0,0 +1,105 @@
+import type { RESTError, RESTErrorData, RESTErrorFieldInformation, RESTRateLimit } from '../../payloads/common.ts';
+
+/**
+ * A single error from the `errors` tree of a {@link RESTError}
+ */
+export interface RESTErrorEntry {
+	/**
+	 * The path to the field the error is about (for instance `embeds[0].fields[2].name`), or an empty string if the
+	 * error is about the request body as a whole
+	 */
+	path: string;
+	/**
+	 * The error code (for instance `BASE_TYPE_REQUIRED`), or `null` if Discord only sent a message
+	 */
+	code: string | null;
+	/**
+	 * The human readable error message
+	 */
+	message: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFieldInformation(data: RESTErrorData): data is RESTErrorFieldInformation {
+	return isRecord(data) && typeof data.code === 'string' && typeof data.message === 'string';
+}
+
+function joinPath(path: string, key: string) {
+	if (/^\d+$/.test(key)) return `${path}[${key}]`;
+	return path ? `${path}.${key}` : key;
+}
+
+function* walkRESTErrorData(data: RESTErrorData, path: string): Generator<RESTErrorEntry> {
+	if (typeof data === 'string') {
+		yield { path, code: null, message: data };
+		return;
+	}
+
+	if (isFieldInformation(data)) {
+		yield { path, code: data.code, message: data.message };
+		return;
+	}
+
+	for (const [key, value] of Object.entries(data)) {
+		if (key === '_errors' && Array.isArray(value)) {
+			for (const error of value as RESTErrorData[]) yield* walkRESTErrorData(error, path);
+		} else {
+			yield* walkRESTErrorData(value as RESTErrorData, joinPath(path, key));
+		}
+	}
+}
+
+/**
+ * Walks the `errors` tree of a {@link RESTError} and yields every error it contains along with the path of its field
+ *
+ * @example
+ * ```ts
+ * [...iterateRESTErrors(error)];
+ * // => [{ path: 'embeds[0].fields[2].name', code: 'BASE_TYPE_REQUIRED', message: 'This field is required' }]
+ * ```
+ * @param error The error response
+ */
+export function* iterateRESTErrors(error: RESTError): Generator<RESTErrorEntry> {
+	if (error.errors !== undefined) yield* walkRESTErrorData(error.errors, '');
+}
+
+/**
+ * Flattens the `errors` tree of a {@link RESTError} into a list of errors along with the path of their field
+ *
+ * @param error The error response
+ */
+export function flattenRESTErrors(error: RESTError): RESTErrorEntry[] {
+	return [...iterateRESTErrors(error)];
+}
+
+/**
+ * Checks whether an error response body is a {@link RESTRateLimit} response
+ *
+ * @param body The parsed response body
+ */
+export function isRESTRateLimit(body: unknown): body is RESTRateLimit {
+	return (
+		isRecord(body) &&
+		typeof body.retry_after === 'number' &&
+		typeof body.global === 'boolean' &&
+		typeof body.message === 'string'
+	);
+}
+
+/**
+ * Checks whether an error response body is a {@link RESTError} response
+ *
+ * @param body The parsed response body
+ */
+export function isRESTError(body: unknown): body is RESTError {
+	return (
+		isRecord(body) &&
+		typeof body.code === 'number' &&
+		typeof body.message === 'string' &&
+		!isRESTRateLimit(body) &&
+		(body.errors === undefined || isRecord(body.errors))
+	);
+}
@@ -0,0 +1,23 @@
+/**
+ * An object holding HTTP headers, either a `Headers`-like object or a record of header names to values
+ */
+export type HeadersLike =
+	| Readonly<Record<string, string | readonly string[] | undefined>>
+	| { get(name: string): string | null };
+
+/**
+ * Gets the value of a header, ignoring the case of its name
+ *
+ * @param headers The headers to look the header up in
+ * @param name The name of the header
+ * @returns The value of the header (the first one if it was sent several times), or `null` if it is missing
+ */
+export function getHeader(headers: HeadersLike, name: string): string | null {
+	if (typeof headers.get === 'function') return (headers.get as (name: string) => string | null)(name);
+
+	const record = headers as Readonly<Record<string, string | readonly string[] | undefined>>;
+	const key = Object.keys(record).find((header) => header.toLowerCase() === name.toLowerCase());
+	const value = key === undefined ? undefined : record[key];
+
+	return (Array.isArray(value) ? value[0] : (value as string | undefined)) ?? null;
+}
@@ -0,0 +1,125 @@
+import type { LocalizationMap } from '../../payloads/common.ts';
+import { Locale } from '../../rest/common.ts';
+
+/**
+ * The display names of a locale
+ */
+export interface LocaleNames {
+	/**
+	 * The name of the locale in its own language
+	 */
+	native: string;
+	/**
+	 * The name of the locale in English
+	 */
+	english: string;
+}
+
+/**
+ * The display names of every {@link Locale}
+ *
+ * See https://discord.com/developers/docs/reference#locales
+ */
+export const LocaleDisplayNames: Readonly<Record<Locale, Readonly<LocaleNames>>> = {
+	[Locale.Indonesian]: { native: 'Bahasa Indonesia', english: 'Indonesian' },
+	[Locale.EnglishUS]: { native: 'English, US', english: 'English, US' },
+	[Locale.EnglishGB]: { native: 'English, UK', english: 'English, UK' },
+	[Locale.Bulgarian]: { native: 'български', english: 'Bulgarian' },
+	[Locale.ChineseCN]: { native: '中文', english: 'Chinese, China' },
+	[Locale.ChineseTW]: { native: '繁體中文', english: 'Chinese, Taiwan' },
+	[Locale.Croatian]: { native: 'Hrvatski', english: 'Croatian' },
+	[Locale.Czech]: { native: 'Čeština', english: 'Czech' },
+	[Locale.Danish]: { native: 'Dansk', english: 'Danish' },
+	[Locale.Dutch]: { native: 'Nederlands', english: 'Dutch' },
+	[Locale.Finnish]: { native: 'Suomi', english: 'Finnish' },
+	[Locale.French]: { native: 'Français', english: 'French' },
+	[Locale.German]: { native: 'Deutsch', english: 'German' },
+	[Locale.Greek]: { native: 'Ελληνικά', english: 'Greek' },
+	[Locale.Hindi]: { native: 'हिन्दी', english: 'Hindi' },
+	[Locale.Hungarian]: { native: 'Magyar', english: 'Hungarian' },
+	[Locale.Italian]: { native: 'Italiano', english: 'Italian' },
+	[Locale.Japanese]: { native: '日本語', english: 'Japanese' },
+	[Locale.Korean]: { native: '한국어', english: 'Korean' },
+	[Locale.Lithuanian]: { native: 'Lietuviškai', english: 'Lithuanian' },
+	[Locale.Norwegian]: { native: 'Norsk', english: 'Norwegian' },
+	[Locale.Polish]: { native: 'Polski', english: 'Polish' },
+	[Locale.PortugueseBR]: { native: 'Português do Brasil', english: 'Portuguese, Brazilian' },
+	[Locale.Romanian]: { native: 'Română', english: 'Romanian, Romania' },
+	[Locale.Russian]: { native: 'Русский', english: 'Russian' },
+	[Locale.SpanishES]: { native: 'Español', english: 'Spanish' },
+	[Locale.SpanishLATAM]: { native: 'Español, LATAM', english: 'Spanish, LATAM' },
+	[Locale.Swedish]: { native: 'Svenska', english: 'Swedish' },
+	[Locale.Thai]: { native: 'ไทย', english: 'Thai' },
+	[Locale.Turkish]: { native: 'Türkçe', english: 'Turkish' },
+	[Locale.Ukrainian]: { native: 'Українська', english: 'Ukrainian' },
+	[Locale.Vietnamese]: { native: 'Tiếng Việt', english: 'Vietnamese' },
+};
+
+// Freeze the object and its entries so they can't be changed
+for (const names of Object.values(LocaleDisplayNames)) Object.freeze(names);
+Object.freeze(LocaleDisplayNames);
+
+/**
+ * The locales to try, in order, when a {@link LocalizationMap} has no entry for a locale
+ */
+export const LocaleFallbacks: Readonly<Partial<Record<Locale, readonly Locale[]>>> = {
+	[Locale.EnglishGB]: [Locale.EnglishUS],
+	[Locale.EnglishUS]: [Locale.EnglishGB],
+	[Locale.SpanishLATAM]: [Locale.SpanishES],
+	[Locale.SpanishES]: [Locale.SpanishLATAM],
+	[Locale.ChineseTW]: [Locale.ChineseCN],
+	[Locale.ChineseCN]: [Locale.ChineseTW],
+};
+
+// Freeze the object and its entries so they can't be changed
+for (const fallbacks of Object.values(LocaleFallbacks)) Object.freeze(fallbacks);
+Object.freeze(LocaleFallbacks);
+
+const Locales = new Set<string>(Object.values(Locale));
+
+/**
+ * Checks whether a string is a {@link Locale} supported by Discord
+ *
+ * @param value The string to check
+ */
+export function isLocale(value: string): value is Locale {
+	return Locales.has(value);
+}
+
+/**
+ * Gets the locales to look up, in order, to localize a string for a locale
+ *
+ * @param locale The locale to localize for
+ * @returns The locale itself followed by its {@link LocaleFallbacks}
+ */
+export function getLocaleChain(locale: Locale): Locale[] {
+	return [locale, ...(LocaleFallbacks[locale] ?? [])];
+}
+
+/**
+ * Resolves the best localization of a string for a locale, trying the {@link LocaleFallbacks} of the locale before
+ * falling back to the default value
+ *
+ * @example
+ * ```ts
+ * resolveLocalization({ 'es-ES': 'hola' }, Locale.SpanishLATAM, 'hello');
+ * // => 'hola'
+ * ```
+ * @param localizations The localizations of the string (for instance `name_localizations`)
+ * @param locale The locale to localize for (for instance the `locale` of an interaction)
+ * @param defaultValue The value to use when there is no localization for the locale (for instance `name`)
+ */
+export function resolveLocalization<Default>(
+	localizations: LocalizationMap | null | undefined,
+	locale: string,
+	defaultValue: Default,
+): Default | string {
+	if (!localizations || !isLocale(locale)) return defaultValue;
+
+	for (const candidate of getLocaleChain(locale)) {
+		const localization = localizations[candidate];
+		if (typeof localization === 'string') return localization;
+	}
+
+	return defaultValue;
+}
@@ -0,0 +1,10 @@
+// This file exports all the utility functions that are not tied to a specific API version
+
+export * from './errorCodes.ts';
+export * from './errors.ts';
+export * from './formatters.ts';
+export * from './headers.ts';
+export * from './locales.ts';
+export * from './rateLimits.ts';
+export * from './snowflake.ts';
+export * from './tokenizer.ts';
@@ -0,0 +1,78 @@
+import type { RESTRateLimitHeaders } from '../../payloads/common.ts';
+import { RateLimitScope } from '../../payloads/common.ts';
+import { getHeader, type HeadersLike } from './headers.ts';
+
+/**
+ * The state of a rate limit bucket, as described by the rate limit headers of a response
+ */
+export interface RateLimitBucketState {
+	/**
+	 * The unique string denoting the rate limit bucket, or `null` if the response did not include one
+	 */
+	bucket: string | null;
+	/**
+	 * The number of requests that can be made, or `null` if the response did not include it
+	 */
+	limit: number | null;
+	/**
+	 * The number of remaining requests that can be made, or `null` if the response did not include it
+	 */
+	remaining: number | null;
+	/**
+	 * The Unix timestamp (in milliseconds) at which the rate limit resets, or `null` if the response did not include it
+	 */
+	reset: number | null;
+	/**
+	 * The number of milliseconds until the rate limit resets, or `null` if the response did not include it
+	 */
+	resetAfter: number | null;
+	/**
+	 * The number of milliseconds to wait before submitting another request, or `null` if the response was not rate
+	 * limited
+	 */
+	retryAfter: number | null;
+	/**
+	 * Whether the rate limit encountered is the global rate limit
+	 */
+	global: boolean;
+	/**
+	 * The scope of the rate limit encountered, or `null` if the response was not rate limited
+	 */
+	scope: RateLimitScope | null;
+}
+
+const RateLimitScopes = new Set<string>(Object.values(RateLimitScope));
+
+function parseNumberHeader(headers: HeadersLike, name: keyof RESTRateLimitHeaders) {
+	const value = getHeader(headers, name);
+	if (value === null || value.trim() === '') return null;
+
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+function secondsToMilliseconds(seconds: number | null) {
+	return seconds === null ? null : Math.round(seconds * 1_000);
+}
+
+/**
+ * Parses the rate limit headers of a response into the state of its rate limit bucket
+ *
+ * Header names are matched case-insensitively, and headers that are missing or malformed are reported as `null`
+ *
+ * @param headers The headers of the response
+ */
+export function parseRateLimitHeaders(headers: HeadersLike): RateLimitBucketState {
+	const scope = getHeader(headers, 'x-ratelimit-scope');
+
+	return {
+		bucket: getHeader(headers, 'x-ratelimit-bucket'),
+		limit: parseNumberHeader(headers, 'x-ratelimit-limit'),
+		remaining: parseNumberHeader(headers, 'x-ratelimit-remaining'),
+		reset: secondsToMilliseconds(parseNumberHeader(headers, 'x-ratelimit-reset')),
+		resetAfter: secondsToMilliseconds(parseNumberHeader(headers, 'x-ratelimit-reset-after')),
+		retryAfter: secondsToMilliseconds(parseNumberHeader(headers, 'retry-after')),
+		global: getHeader(headers, 'x-ratelimit-global')?.toLowerCase() === 'true',
+		scope: scope !== null && RateLimitScopes.has(scope) ? (scope as RateLimitScope) : null,
+	};
+}
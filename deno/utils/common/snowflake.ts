@@ -0,0 +1,114 @@
+import type { Snowflake } from '../../globals.ts';
+
+/**
+ * The Discord epoch, the first second of 2015, in milliseconds since the Unix epoch
+ *
+ * https://discord.com/developers/docs/reference#snowflakes
+ */
+export const DiscordEpoch = 1_420_070_400_000;
+
+/**
+ * The individual parts that make up a snowflake
+ *
+ * https://discord.com/developers/docs/reference#snowflakes-snowflake-id-format-structure-left-to-right
+ */
+export interface DeconstructedSnowflake {
+	/**
+	 * The snowflake that was deconstructed
+	 */
+	id: Snowflake;
+	/**
+	 * Milliseconds since the Unix epoch at which the snowflake was generated
+	 */
+	timestamp: number;
+	/**
+	 * Internal worker id
+	 */
+	workerId: number;
+	/**
+	 * Internal process id
+	 */
+	processId: number;
+	/**
+	 * Incremented for every id generated on the process
+	 */
+	increment: number;
+}
+
+const SnowflakePattern = /^\d{17,20}$/;
+
+const MaxSnowflake = (1n << 64n) - 1n;
+
+/**
+ * A type-guard check for snowflakes
+ *
+ * @param value The value to check against
+ * @returns A boolean that indicates if the value is a string of 17 to 20 digits that fits in an unsigned 64-bit integer
+ */
+export function isSnowflake(value: unknown): value is Snowflake {
+	return typeof value === 'string' && SnowflakePattern.test(value) && BigInt(value) <= MaxSnowflake;
+}
+
+/**
+ * Deconstructs a snowflake into its individual parts
+ *
+ * @param snowflake The snowflake to deconstruct
+ * @returns The timestamp, worker id, process id and increment stored in the snowflake
+ */
+export function deconstructSnowflake(snowflake: Snowflake): DeconstructedSnowflake {
+	const bits = BigInt(snowflake);
+
+	return {
+		id: snowflake,
+		timestamp: Number(bits >> 22n) + DiscordEpoch,
+		workerId: Number((bits >> 17n) & 0b1_1111n),
+		processId: Number((bits >> 12n) & 0b1_1111n),
+		increment: Number(bits & 0b1111_1111_1111n),
+	};
+}
+
+/**
+ * Extracts the timestamp at which a snowflake was generated
+ *
+ * @param snowflake The snowflake to get the timestamp of
+ * @returns Milliseconds since the Unix epoch at which the snowflake was generated
+ */
+export function snowflakeTimestamp(snowflake: Snowflake): number {
+	return Number(BigInt(snowflake) >> 22n) + DiscordEpoch;
+}
+
+/**
+ * Generates the lowest possible snowflake for a point in time, with its worker id, process id and increment set to 0
+ *
+ * This is intended for the `before`, `after` and `around` pagination queries, such as the ones in
+ * {@link https://discord.com/developers/docs/resources/message#get-channel-messages | Get Channel Messages}
+ *
+ * @param timestamp The point in time to generate the snowflake for, as a Date or in milliseconds since the Unix epoch
+ * @returns The generated snowflake
+ */
+export function snowflakeFromTimestamp(timestamp: Date | number): Snowflake {
+	const milliseconds = typeof timestamp === 'number' ? timestamp : timestamp.getTime();
+
+	if (!Number.isSafeInteger(milliseconds) || milliseconds < DiscordEpoch) {
+		throw new RangeError(
+			`Cannot generate a snowflake for ${milliseconds}, it must be an integer after the Discord epoch`,
+		);
+	}
+
+	return (BigInt(milliseconds - DiscordEpoch) << 22n).toString();
+}
+
+/**
+ * Compares two snowflakes without losing precision, for use with `Array.prototype.sort`
+ *
+ * @param a The first snowflake
+ * @param b The second snowflake
+ * @returns `-1` if `a` is older than `b`, `1` if `a` is newer than `b`, and `0` if they are equal
+ */
+export function compareSnowflakes(a: Snowflake, b: Snowflake): -1 | 0 | 1 {
+	const first = BigInt(a);
+	const second = BigInt(b);
+
+	if (first === second) return 0;
+	return first < second ? -1 : 1;
+}
@@ -2,9 +2,6 @@ import type {
 	APIApplicationCommandDMInteraction,
 	APIApplicationCommandGuildInteraction,
 	APIApplicationCommandInteraction,
-	APIButtonComponent,
-	APIButtonComponentWithCustomId,
-	APIButtonComponentWithURL,
 	APIChatInputApplicationCommandInteraction,
 	APIContextMenuInteraction,
 	APIDMInteraction,
@@ -16,7 +13,24 @@ import type {
 	APIMessageComponentInteraction,
 	APIMessageComponentSelectMenuInteraction,
 } from '../payloads/v10/mod.ts';
-import { ApplicationCommandType, ButtonStyle, ComponentType, InteractionType } from '../payloads/v10/mod.ts';
+import { ApplicationCommandType, ComponentType, InteractionType } from '../payloads/v10/mod.ts';
+
+export * from './common/mod.ts';
+export * from './v10/applicationCommands.ts';
+export * from './v10/buttons.ts';
+export * from './v10/cdn.ts';
+export * from './v10/closeCodes.ts';
+export * from './v10/commandOptions.ts';
+export * from './v10/components.ts';
+export * from './v10/embeds.ts';
+export * from './v10/formData.ts';
+export * from './v10/interactionResponses.ts';
+export * from './v10/intents.ts';
+export * from './v10/permissions.ts';
+export * from './v10/restRoutes.ts';
+export * from './v10/routes.ts';
+export * from './v10/verification.ts';
+export * from './v10/webhookEvents.ts';
 
 // Interactions
 
@@ -92,28 +106,6 @@ export function isMessageComponentGuildInteraction(
 	return isGuildInteraction(interaction);
 }
 
-// Buttons
-
-/**
- * A type-guard check for buttons that have a `url` attached to them.
- *
- * @param component The button to check against
- * @returns A boolean that indicates if the button has a `url` attached to it
- */
-export function isLinkButton(component: APIButtonComponent): component is APIButtonComponentWithURL {
-	return component.style === ButtonStyle.Link;
-}
-
-/**
- * A type-guard check for buttons that have a `custom_id` attached to them.
- *
- * @param component The button to check against
- * @returns A boolean that indicates if the button has a `custom_id` attached to it
- */
-export function isInteractionButton(component: APIButtonComponent): component is APIButtonComponentWithCustomId {
-	return ![ButtonStyle.Link, ButtonStyle.Premium].includes(component.style);
-}
-
 // Message Components
 
 /**
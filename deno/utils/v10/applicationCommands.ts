@@ -0,0 +1,459 @@
+import { ChatInputApplicationCommandNamePattern } from '../../globals.ts';
+import { ApplicationCommandOptionType, ApplicationCommandType } from '../../payloads/v10/mod.ts';
+import type { RESTPostAPIApplicationCommandsJSONBody } from '../../rest/v10/mod.ts';
+
+/**
+ * The reasons an application command can fail validation
+ */
+export enum ApplicationCommandValidationErrorCode {
+	/**
+	 * A required field is missing
+	 */
+	MissingField = 'MISSING_FIELD',
+	/**
+	 * A field is set where it is not allowed
+	 */
+	UnexpectedField = 'UNEXPECTED_FIELD',
+	/**
+	 * A string is too short or too long
+	 */
+	InvalidLength = 'INVALID_LENGTH',
+	/**
+	 * A name does not match the pattern Discord allows
+	 */
+	InvalidName = 'INVALID_NAME',
+	/**
+	 * A list has more items than Discord allows
+	 */
+	TooManyItems = 'TOO_MANY_ITEMS',
+	/**
+	 * Two options or choices at the same level share a name
+	 */
+	DuplicateName = 'DUPLICATE_NAME',
+	/**
+	 * A required option is placed after an optional one
+	 */
+	RequiredAfterOptional = 'REQUIRED_AFTER_OPTIONAL',
+	/**
+	 * An option type is not allowed where it is placed (for instance a subcommand group inside a subcommand)
+	 */
+	InvalidOptionType = 'INVALID_OPTION_TYPE',
+	/**
+	 * A minimum is greater than its maximum, or out of the bounds Discord allows
+	 */
+	InvalidRange = 'INVALID_RANGE',
+	/**
+	 * An option has both `autocomplete` and `choices` set
+	 */
+	AutocompleteWithChoices = 'AUTOCOMPLETE_WITH_CHOICES',
+	/**
+	 * The combined length of the names, descriptions and choices of the command is too large
+	 */
+	CommandTooLarge = 'COMMAND_TOO_LARGE',
+}
+
+/**
+ * A single problem found while validating an application command
+ */
+export interface ApplicationCommandValidationError {
+	/**
+	 * The path to the field the error is about (for instance `options[0].choices[2].name`), or an empty string if the
+	 * error is about the command as a whole
+	 */
+	path: string;
+	/**
+	 * The reason the field failed validation
+	 */
+	code: ApplicationCommandValidationErrorCode;
+	/**
+	 * The human readable error message
+	 */
+	message: string;
+}
+
+const MaximumOptions = 25;
+const MaximumChoices = 25;
+const MaximumNameLength = 32;
+const MaximumDescriptionLength = 100;
+const MaximumChoiceNameLength = 100;
+const MaximumChoiceValueLength = 100;
+const MaximumStringOptionLength = 6_000;
+const MaximumCommandLength = 4_000;
+
+/**
+ * The loose shape used to inspect localization maps at runtime, regardless of how strictly their entries are typed
+ */
+type InspectedLocalizations = Readonly<Partial<Record<string, string | null | undefined>>> | null | undefined;
+
+/**
+ * The loose shape used to inspect application command options at runtime, as the option union is too strict to read
+ * every field of without narrowing first
+ */
+interface InspectedOption {
+	type: ApplicationCommandOptionType;
+	name: string;
+	name_localizations?: InspectedLocalizations;
+	description: string;
+	description_localizations?: InspectedLocalizations;
+	required?: boolean;
+	options?: InspectedOption[];
+	choices?: { name: string; name_localizations?: InspectedLocalizations; value: number | string }[];
+	autocomplete?: boolean;
+	min_value?: number;
+	max_value?: number;
+	min_length?: number;
+	max_length?: number;
+}
+
+const SubcommandTypes = new Set([
+	ApplicationCommandOptionType.Subcommand,
+	ApplicationCommandOptionType.SubcommandGroup,
+]);
+
+class ValidationContext {
+	public readonly errors: ApplicationCommandValidationError[] = [];
+
+	public report(path: string, code: ApplicationCommandValidationErrorCode, message: string) {
+		this.errors.push({ path, code, message });
+	}
+
+	public validateLength(path: string, value: string, min: number, max: number) {
+		if (value.length < min || value.length > max) {
+			this.report(
+				path,
+				ApplicationCommandValidationErrorCode.InvalidLength,
+				`Must be between ${min} and ${max} characters long`,
+			);
+		}
+	}
+
+	public validateChatInputName(path: string, name: string) {
+		if (!ChatInputApplicationCommandNamePattern.test(name)) {
+			this.report(
+				path,
+				ApplicationCommandValidationErrorCode.InvalidName,
+				`Must be between 1 and ${MaximumNameLength} letters, numbers, "-" or "_"`,
+			);
+		} else if (name !== name.toLowerCase()) {
+			this.report(path, ApplicationCommandValidationErrorCode.InvalidName, 'Must not contain uppercase letters');
+		}
+	}
+
+	public validateLocalizations(
+		path: string,
+		localizations: InspectedLocalizations,
+		validate: (path: string, value: string) => void,
+	) {
+		if (!localizations) return;
+
+		for (const [locale, value] of Object.entries(localizations)) {
+			if (typeof value === 'string') validate(`${path}.${locale}`, value);
+		}
+	}
+
+	public validateNoDuplicates(path: string, items: readonly { name: string }[], label: string) {
+		const seen = new Set<string>();
+
+		for (const [index, item] of items.entries()) {
+			if (seen.has(item.name)) {
+				this.report(
+					`${path}[${index}].name`,
+					ApplicationCommandValidationErrorCode.DuplicateName,
+					`${label} names must be unique`,
+				);
+			}
+
+			seen.add(item.name);
+		}
+	}
+}
+
+function localizationsLength(localizations: InspectedLocalizations) {
+	if (!localizations) return 0;
+	return Math.max(0, ...Object.values(localizations).map((value) => value?.length ?? 0));
+}
+
+function optionLength(option: InspectedOption): number {
+	return (
+		Math.max(option.name.length, localizationsLength(option.name_localizations)) +
+		Math.max(option.description.length, localizationsLength(option.description_localizations)) +
+		(option.choices ?? []).reduce(
+			(total, choice) =>
+				total +
+				Math.max(choice.name.length, localizationsLength(choice.name_localizations)) +
+				String(choice.value).length,
+			0,
+		) +
+		(option.options ?? []).reduce((total, child) => total + optionLength(child), 0)
+	);
+}
+
+function validateChoices(context: ValidationContext, path: string, option: InspectedOption) {
+	const { choices } = option;
+	if (!choices?.length) return;
+
+	if (option.autocomplete) {
+		context.report(
+			`${path}.autocomplete`,
+			ApplicationCommandValidationErrorCode.AutocompleteWithChoices,
+			'Autocomplete cannot be enabled on options that have choices',
+		);
+	}
+
+	if (choices.length > MaximumChoices) {
+		context.report(
+			`${path}.choices`,
+			ApplicationCommandValidationErrorCode.TooManyItems,
+			`Must be ${MaximumChoices} or fewer in length`,
+		);
+	}
+
+	context.validateNoDuplicates(`${path}.choices`, choices, 'Choice');
+
+	for (const [index, choice] of choices.entries()) {
+		const choicePath = `${path}.choices[${index}]`;
+
+		context.validateLength(`${choicePath}.name`, choice.name, 1, MaximumChoiceNameLength);
+		context.validateLocalizations(
+			`${choicePath}.name_localizations`,
+			choice.name_localizations,
+			(localePath, value) => context.validateLength(localePath, value, 1, MaximumChoiceNameLength),
+		);
+
+		if (typeof choice.value === 'string') {
+			context.validateLength(`${choicePath}.value`, choice.value, 1, MaximumChoiceValueLength);
+		}
+	}
+}
+
+function validateRange(
+	context: ValidationContext,
+	path: string,
+	[minKey, maxKey]: ['min_length', 'max_length'] | ['min_value', 'max_value'],
+	option: InspectedOption,
+	[lowerBound, upperBound]: [number, number],
+) {
+	const min = option[minKey];
+	const max = option[maxKey];
+
+	for (const [key, value] of [
+		[minKey, min],
+		[maxKey, max],
+	] as const) {
+		if (value !== undefined && (value < lowerBound || value > upperBound)) {
+			context.report(
+				`${path}.${key}`,
+				ApplicationCommandValidationErrorCode.InvalidRange,
+				`Must be between ${lowerBound} and ${upperBound}`,
+			);
+		}
+	}
+
+	if (min !== undefined && max !== undefined && min > max) {
+		context.report(
+			`${path}.${minKey}`,
+			ApplicationCommandValidationErrorCode.InvalidRange,
+			`Must be less than or equal to ${maxKey}`,
+		);
+	}
+}
+
+function validateOptions(
+	context: ValidationContext,
+	path: string,
+	options: readonly InspectedOption[],
+	parentType: ApplicationCommandOptionType | null,
+) {
+	if (options.length > MaximumOptions) {
+		context.report(
+			path,
+			ApplicationCommandValidationErrorCode.TooManyItems,
+			`Must be ${MaximumOptions} or fewer in length`,
+		);
+	}
+
+	context.validateNoDuplicates(path, options, 'Option');
+
+	const hasSubcommands = options.some((option) => SubcommandTypes.has(option.type));
+	let seenOptional = false;
+
+	for (const [index, option] of options.entries()) {
+		const optionPath = `${path}[${index}]`;
+		const isSubcommand = SubcommandTypes.has(option.type);
+
+		if (
+			(parentType === ApplicationCommandOptionType.SubcommandGroup &&
+				option.type !== ApplicationCommandOptionType.Subcommand) ||
+			(parentType === ApplicationCommandOptionType.Subcommand && isSubcommand) ||
+			(parentType === null && hasSubcommands && !isSubcommand)
+		) {
+			context.report(
+				`${optionPath}.type`,
+				ApplicationCommandValidationErrorCode.InvalidOptionType,
+				parentType === ApplicationCommandOptionType.SubcommandGroup ?
+					'Subcommand groups can only contain subcommands'
+				: parentType === ApplicationCommandOptionType.Subcommand ?
+					'Subcommands cannot contain subcommands or subcommand groups'
+				:	'Subcommands and subcommand groups cannot be mixed with other option types',
+			);
+		}
+
+		context.validateChatInputName(`${optionPath}.name`, option.name);
+		context.validateLocalizations(
+			`${optionPath}.name_localizations`,
+			option.name_localizations,
+			(localePath, value) => context.validateChatInputName(localePath, value),
+		);
+		context.validateLength(`${optionPath}.description`, option.description, 1, MaximumDescriptionLength);
+		context.validateLocalizations(
+			`${optionPath}.description_localizations`,
+			option.description_localizations,
+			(localePath, value) => context.validateLength(localePath, value, 1, MaximumDescriptionLength),
+		);
+
+		if (isSubcommand) {
+			if (option.required !== undefined) {
+				context.report(
+					`${optionPath}.required`,
+					ApplicationCommandValidationErrorCode.UnexpectedField,
+					'Subcommands and subcommand groups cannot be required',
+				);
+			}
+
+			if (option.options) validateOptions(context, `${optionPath}.options`, option.options, option.type);
+			continue;
+		}
+
+		if (option.required) {
+			if (seenOptional) {
+				context.report(
+					`${optionPath}.required`,
+					ApplicationCommandValidationErrorCode.RequiredAfterOptional,
+					'Required options must be placed before non-required options',
+				);
+			}
+		} else {
+			seenOptional = true;
+		}
+
+		validateChoices(context, optionPath, option);
+
+		if (option.type === ApplicationCommandOptionType.String) {
+			validateRange(context, optionPath, ['min_length', 'max_length'], option, [0, MaximumStringOptionLength]);
+		} else if (
+			option.type === ApplicationCommandOptionType.Integer ||
+			option.type === ApplicationCommandOptionType.Number
+		) {
+			validateRange(context, optionPath, ['min_value', 'max_value'], option, [
+				-Number.MAX_SAFE_INTEGER,
+				Number.MAX_SAFE_INTEGER,
+			]);
+		}
+	}
+}
+
+/**
+ * Validates an application command against the constraints documented by Discord, so that mistakes can be reported
+ * before the command is registered
+ *
+ * See https://discord.com/developers/docs/interactions/application-commands#application-command-object
+ *
+ * @param command The command to validate
+ * @returns The problems found in the command, or an empty array if it is valid
+ */
+export function validateApplicationCommand(
+	command: RESTPostAPIApplicationCommandsJSONBody,
+): ApplicationCommandValidationError[] {
+	const context = new ValidationContext();
+	const isChatInput = command.type === undefined || command.type === ApplicationCommandType.ChatInput;
+
+	if (isChatInput) {
+		context.validateChatInputName('name', command.name);
+		context.validateLocalizations('name_localizations', command.name_localizations, (path, value) =>
+			context.validateChatInputName(path, value),
+		);
+
+		if (typeof command.description === 'string') {
+			context.validateLength('description', command.description, 1, MaximumDescriptionLength);
+		} else {
+			context.report('description', ApplicationCommandValidationErrorCode.MissingField, 'This field is required');
+		}
+
+		context.validateLocalizations('description_localizations', command.description_localizations, (path, value) =>
+			context.validateLength(path, value, 1, MaximumDescriptionLength),
+		);
+
+		const options = (command.options ?? []) as InspectedOption[];
+		validateOptions(context, 'options', options, null);
+
+		const length =
+			Math.max(command.name.length, localizationsLength(command.name_localizations)) +
+			Math.max(command.description?.length ?? 0, localizationsLength(command.description_localizations)) +
+			options.reduce((total, option) => total + optionLength(option), 0);
+
+		if (length > MaximumCommandLength) {
+			context.report(
+				'',
+				ApplicationCommandValidationErrorCode.CommandTooLarge,
+				`The combined length of the names, descriptions and choices must be ${MaximumCommandLength} or fewer characters`,
+			);
+		}
+	} else {
+		context.validateLength('name', command.name, 1, MaximumNameLength);
+		context.validateLocalizations('name_localizations', command.name_localizations, (path, value) =>
+			context.validateLength(path, value, 1, MaximumNameLength),
+		);
+
+		if ('description' in command && command.description) {
+			context.report(
+				'description',
+				ApplicationCommandValidationErrorCode.UnexpectedField,
+				'Context menu commands cannot have a description',
+			);
+		}
+
+		if (command.options?.length) {
+			context.report(
+				'options',
+				ApplicationCommandValidationErrorCode.UnexpectedField,
+				'Context menu commands cannot have options',
+			);
+		}
+	}
+
+	return context.errors;
+}
+
+/**
+ * Validates a list of application commands to be registered at once, for instance with
+ * `RESTPutAPIApplicationCommandsJSONBody`
+ *
+ * @param commands The commands to validate
+ * @returns The problems found in the commands, with paths prefixed by the index of their command
+ */
+export function validateApplicationCommands(
+	commands: readonly RESTPostAPIApplicationCommandsJSONBody[],
+): ApplicationCommandValidationError[] {
+	const errors: ApplicationCommandValidationError[] = [];
+	const seen = new Set<string>();
+
+	for (const [index, command] of commands.entries()) {
+		const key = `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+
+		if (seen.has(key)) {
+			errors.push({
+				path: `[${index}].name`,
+				code: ApplicationCommandValidationErrorCode.DuplicateName,
+				message: 'Application command names must be unique per command type',
+			});
+		}
+
+		seen.add(key);
+
+		for (const error of validateApplicationCommand(command)) {
+			errors.push({ ...error, path: error.path ? `[${index}].${error.path}` : `[${index}]` });
+		}
+	}
+
+	return errors;
+}
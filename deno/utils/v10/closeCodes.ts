@@ -0,0 +1,110 @@
+import { GatewayCloseCodes } from '../../gateway/v10.ts';
+import { RPCCloseEventCodes } from '../../rpc/v10.ts';
+import { VoiceCloseCodes } from '../../voice/mod.ts';
+
+/**
+ * How a client should behave after its connection is closed with a given close code
+ */
+export interface CloseCodeBehavior {
+	/**
+	 * Whether the client should reconnect
+	 */
+	reconnect: boolean;
+	/**
+	 * Whether the client should resume its session when reconnecting, instead of identifying again
+	 */
+	resume: boolean;
+	/**
+	 * Whether the close code indicates an error in the configuration of the client (for instance an invalid token or
+	 * disallowed intents) that has to be fixed before connecting again
+	 */
+	configurationError: boolean;
+}
+
+const Resume: Readonly<CloseCodeBehavior> = Object.freeze({ reconnect: true, resume: true, configurationError: false });
+const Reidentify: Readonly<CloseCodeBehavior> = Object.freeze({
+	reconnect: true,
+	resume: false,
+	configurationError: false,
+});
+const Disconnect: Readonly<CloseCodeBehavior> = Object.freeze({
+	reconnect: false,
+	resume: false,
+	configurationError: false,
+});
+const ConfigurationError: Readonly<CloseCodeBehavior> = Object.freeze({
+	reconnect: false,
+	resume: false,
+	configurationError: true,
+});
+
+/**
+ * How a client should behave after its gateway connection is closed with each {@link GatewayCloseCodes} close code
+ *
+ * See https://discord.com/developers/docs/topics/opcodes-and-status-codes#gateway-gateway-close-event-codes
+ */
+export const GatewayCloseCodeBehaviors: Readonly<Record<GatewayCloseCodes, Readonly<CloseCodeBehavior>>> = {
+	[GatewayCloseCodes.UnknownError]: Resume,
+	[GatewayCloseCodes.UnknownOpcode]: Resume,
+	[GatewayCloseCodes.DecodeError]: Resume,
+	[GatewayCloseCodes.NotAuthenticated]: Reidentify,
+	[GatewayCloseCodes.AuthenticationFailed]: ConfigurationError,
+	[GatewayCloseCodes.AlreadyAuthenticated]: Reidentify,
+	[GatewayCloseCodes.InvalidSeq]: Reidentify,
+	[GatewayCloseCodes.RateLimited]: Resume,
+	[GatewayCloseCodes.SessionTimedOut]: Reidentify,
+	[GatewayCloseCodes.InvalidShard]: ConfigurationError,
+	[GatewayCloseCodes.ShardingRequired]: ConfigurationError,
+	[GatewayCloseCodes.InvalidAPIVersion]: ConfigurationError,
+	[GatewayCloseCodes.InvalidIntents]: ConfigurationError,
+	[GatewayCloseCodes.DisallowedIntents]: ConfigurationError,
+};
+
+// Freeze the object so it can't be changed
+Object.freeze(GatewayCloseCodeBehaviors);
+
+/**
+ * How a client should behave after its voice gateway connection is closed with each {@link VoiceCloseCodes} close code
+ *
+ * See https://discord.com/developers/docs/topics/opcodes-and-status-codes#voice-voice-close-event-codes
+ */
+export const VoiceCloseCodeBehaviors: Readonly<Record<VoiceCloseCodes, Readonly<CloseCodeBehavior>>> = {
+	[VoiceCloseCodes.UnknownOpcode]: Resume,
+	[VoiceCloseCodes.FailedToDecode]: Resume,
+	[VoiceCloseCodes.NotAuthenticated]: Reidentify,
+	[VoiceCloseCodes.AuthenticationFailed]: ConfigurationError,
+	[VoiceCloseCodes.AlreadyAuthenticated]: Reidentify,
+	[VoiceCloseCodes.SessionNoLongerValid]: Reidentify,
+	[VoiceCloseCodes.SessionTimeout]: Reidentify,
+	[VoiceCloseCodes.ServerNotFound]: Reidentify,
+	[VoiceCloseCodes.UnknownProtocol]: ConfigurationError,
+	[VoiceCloseCodes.Disconnected]: Disconnect,
+	[VoiceCloseCodes.VoiceServerCrashed]: Resume,
+	[VoiceCloseCodes.UnknownEncryptionMode]: ConfigurationError,
+	[VoiceCloseCodes.E2EEDAVEProtocolRequired]: ConfigurationError,
+	[VoiceCloseCodes.BadRequest]: ConfigurationError,
+	[VoiceCloseCodes.RateLimited]: Disconnect,
+	[VoiceCloseCodes.CallTerminated]: Disconnect,
+};
+
+// Freeze the object so it can't be changed
+Object.freeze(VoiceCloseCodeBehaviors);
+
+/**
+ * How a client should behave after its RPC connection is closed with each {@link RPCCloseEventCodes} close code
+ *
+ * RPC connections have no session to resume, so `resume` is always `false`
+ *
+ * See https://discord.com/developers/docs/topics/opcodes-and-status-codes#rpc-rpc-close-event-codes
+ */
+export const RPCCloseEventCodeBehaviors: Readonly<Record<RPCCloseEventCodes, Readonly<CloseCodeBehavior>>> = {
+	[RPCCloseEventCodes.InvalidClientId]: ConfigurationError,
+	[RPCCloseEventCodes.InvalidOrigin]: ConfigurationError,
+	[RPCCloseEventCodes.RateLimited]: Reidentify,
+	[RPCCloseEventCodes.TokenRevoked]: Disconnect,
+	[RPCCloseEventCodes.InvalidVersion]: ConfigurationError,
+	[RPCCloseEventCodes.InvalidEncoding]: ConfigurationError,
+};
+
+// Freeze the object so it can't be changed
+Object.freeze(RPCCloseEventCodeBehaviors);
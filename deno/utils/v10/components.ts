@@ -0,0 +1,436 @@
+import type {
+	APIActionRowComponent,
+	APIButtonComponent,
+	APIMessageActionRowComponent,
+	APIModalActionRowComponent,
+	APIModalInteractionResponseCallbackData,
+	APISelectMenuComponent,
+	APITextInputComponent,
+} from '../../payloads/v10/mod.ts';
+import { ComponentType } from '../../payloads/v10/mod.ts';
+import { isInteractionButton, isLinkButton } from './buttons.ts';
+
+/**
+ * The reasons a message component or modal can fail validation
+ */
+export enum ComponentValidationErrorCode {
+	/**
+	 * A required field is missing
+	 */
+	MissingField = 'MISSING_FIELD',
+	/**
+	 * A field is set where it is not allowed
+	 */
+	UnexpectedField = 'UNEXPECTED_FIELD',
+	/**
+	 * A string is too short or too long
+	 */
+	InvalidLength = 'INVALID_LENGTH',
+	/**
+	 * A list has fewer items than Discord requires
+	 */
+	NotEnoughItems = 'NOT_ENOUGH_ITEMS',
+	/**
+	 * A list has more items than Discord allows
+	 */
+	TooManyItems = 'TOO_MANY_ITEMS',
+	/**
+	 * A number is out of the bounds Discord allows, or a minimum is greater than its maximum
+	 */
+	InvalidRange = 'INVALID_RANGE',
+	/**
+	 * A component is placed where its type is not allowed (for instance a text input in a message, or a select menu
+	 * next to other components)
+	 */
+	InvalidComponentType = 'INVALID_COMPONENT_TYPE',
+	/**
+	 * Two components share the same `custom_id`
+	 */
+	DuplicateCustomId = 'DUPLICATE_CUSTOM_ID',
+	/**
+	 * Two options of a string select menu share the same `value`
+	 */
+	DuplicateValue = 'DUPLICATE_VALUE',
+}
+
+/**
+ * A single problem found while validating message components or a modal
+ */
+export interface ComponentValidationError {
+	/**
+	 * The path to the field the error is about (for instance `[0].components[2].custom_id`), or an empty string if the
+	 * error is about the components as a whole
+	 */
+	path: string;
+	/**
+	 * The reason the field failed validation
+	 */
+	code: ComponentValidationErrorCode;
+	/**
+	 * The human readable error message
+	 */
+	message: string;
+}
+
+const MaximumActionRows = 5;
+const MaximumButtonsPerRow = 5;
+const MaximumCustomIdLength = 100;
+const MaximumButtonLabelLength = 80;
+const MaximumSelectMenuPlaceholderLength = 150;
+const MaximumSelectMenuValues = 25;
+const MaximumSelectMenuOptions = 25;
+const MaximumSelectMenuOptionLength = 100;
+const MaximumModalTitleLength = 45;
+const MaximumTextInputLabelLength = 45;
+const MaximumTextInputPlaceholderLength = 100;
+const MaximumTextInputLength = 4_000;
+
+/**
+ * The loose shape used to inspect components at runtime, as they may not match their types when built dynamically
+ */
+interface InspectedComponent {
+	type: ComponentType;
+	custom_id?: string;
+	label?: string;
+	emoji?: unknown;
+	url?: string;
+	sku_id?: string;
+	placeholder?: string;
+	min_values?: number;
+	max_values?: number;
+	options?: { label: string; value: string; description?: string }[];
+	default_values?: unknown[];
+	value?: string;
+	min_length?: number;
+	max_length?: number;
+}
+
+const SelectMenuTypes = new Set([
+	ComponentType.StringSelect,
+	ComponentType.UserSelect,
+	ComponentType.RoleSelect,
+	ComponentType.MentionableSelect,
+	ComponentType.ChannelSelect,
+]);
+
+class ValidationContext {
+	public readonly errors: ComponentValidationError[] = [];
+
+	private readonly customIds = new Set<string>();
+
+	public report(path: string, code: ComponentValidationErrorCode, message: string) {
+		this.errors.push({ path, code, message });
+	}
+
+	public validateLength(path: string, value: string | undefined, min: number, max: number) {
+		if (value === undefined) {
+			if (min > 0) this.report(path, ComponentValidationErrorCode.MissingField, 'This field is required');
+		} else if (value.length < min || value.length > max) {
+			this.report(
+				path,
+				ComponentValidationErrorCode.InvalidLength,
+				`Must be between ${min} and ${max} characters long`,
+			);
+		}
+	}
+
+	public validateRange(
+		path: string,
+		[minKey, maxKey]: ['min_length', 'max_length'] | ['min_values', 'max_values'],
+		component: InspectedComponent,
+		[lowerMin, upperMin]: [number, number],
+		[lowerMax, upperMax]: [number, number],
+	) {
+		const min = component[minKey];
+		const max = component[maxKey];
+
+		if (min !== undefined && (min < lowerMin || min > upperMin)) {
+			this.report(
+				`${path}.${minKey}`,
+				ComponentValidationErrorCode.InvalidRange,
+				`Must be between ${lowerMin} and ${upperMin}`,
+			);
+		}
+
+		if (max !== undefined && (max < lowerMax || max > upperMax)) {
+			this.report(
+				`${path}.${maxKey}`,
+				ComponentValidationErrorCode.InvalidRange,
+				`Must be between ${lowerMax} and ${upperMax}`,
+			);
+		}
+
+		if (min !== undefined && max !== undefined && min > max) {
+			this.report(
+				`${path}.${minKey}`,
+				ComponentValidationErrorCode.InvalidRange,
+				`Must be less than or equal to ${maxKey}`,
+			);
+		}
+	}
+
+	public validateCustomId(path: string, customId: string | undefined) {
+		this.validateLength(path, customId, 1, MaximumCustomIdLength);
+		if (customId === undefined) return;
+
+		if (this.customIds.has(customId)) {
+			this.report(path, ComponentValidationErrorCode.DuplicateCustomId, 'Custom ids must be unique');
+		}
+
+		this.customIds.add(customId);
+	}
+
+	public validateAbsent(
+		path: string,
+		component: InspectedComponent,
+		keys: (keyof InspectedComponent)[],
+		reason: string,
+	) {
+		for (const key of keys) {
+			if (component[key] !== undefined) {
+				this.report(`${path}.${key}`, ComponentValidationErrorCode.UnexpectedField, reason);
+			}
+		}
+	}
+}
+
+function validateButton(context: ValidationContext, path: string, button: APIButtonComponent) {
+	const inspected = button as InspectedComponent;
+
+	if (isLinkButton(button)) {
+		context.validateLength(`${path}.url`, inspected.url, 1, Number.POSITIVE_INFINITY);
+		context.validateAbsent(path, inspected, ['custom_id', 'sku_id'], 'Link buttons cannot have this field');
+	} else if (isInteractionButton(button)) {
+		context.validateCustomId(`${path}.custom_id`, inspected.custom_id);
+		context.validateAbsent(path, inspected, ['url', 'sku_id'], 'Interaction buttons cannot have this field');
+	} else {
+		context.validateLength(`${path}.sku_id`, inspected.sku_id, 1, Number.POSITIVE_INFINITY);
+		context.validateAbsent(
+			path,
+			inspected,
+			['custom_id', 'url', 'label', 'emoji'],
+			'Premium buttons cannot have this field',
+		);
+		return;
+	}
+
+	if (inspected.label === undefined && inspected.emoji === undefined) {
+		context.report(
+			`${path}.label`,
+			ComponentValidationErrorCode.MissingField,
+			'Buttons must have a label or an emoji',
+		);
+	} else {
+		context.validateLength(`${path}.label`, inspected.label, 0, MaximumButtonLabelLength);
+	}
+}
+
+function validateSelectMenu(context: ValidationContext, path: string, selectMenu: APISelectMenuComponent) {
+	const inspected = selectMenu as InspectedComponent;
+
+	context.validateCustomId(`${path}.custom_id`, inspected.custom_id);
+	context.validateLength(`${path}.placeholder`, inspected.placeholder, 0, MaximumSelectMenuPlaceholderLength);
+	context.validateRange(
+		path,
+		['min_values', 'max_values'],
+		inspected,
+		[0, MaximumSelectMenuValues],
+		[1, MaximumSelectMenuValues],
+	);
+
+	if (selectMenu.type !== ComponentType.StringSelect) {
+		if (inspected.default_values && inspected.default_values.length > (inspected.max_values ?? 1)) {
+			context.report(
+				`${path}.default_values`,
+				ComponentValidationErrorCode.TooManyItems,
+				'Must have at most as many items as max_values',
+			);
+		}
+
+		return;
+	}
+
+	const options = inspected.options ?? [];
+
+	if (options.length === 0) {
+		context.report(`${path}.options`, ComponentValidationErrorCode.NotEnoughItems, 'Must have at least 1 item');
+	} else if (options.length > MaximumSelectMenuOptions) {
+		context.report(
+			`${path}.options`,
+			ComponentValidationErrorCode.TooManyItems,
+			`Must be ${MaximumSelectMenuOptions} or fewer in length`,
+		);
+	}
+
+	if (inspected.max_values !== undefined && options.length > 0 && inspected.max_values > options.length) {
+		context.report(
+			`${path}.max_values`,
+			ComponentValidationErrorCode.InvalidRange,
+			'Must be less than or equal to the number of options',
+		);
+	}
+
+	const values = new Set<string>();
+
+	for (const [index, option] of options.entries()) {
+		const optionPath = `${path}.options[${index}]`;
+
+		context.validateLength(`${optionPath}.label`, option.label, 1, MaximumSelectMenuOptionLength);
+		context.validateLength(`${optionPath}.value`, option.value, 1, MaximumSelectMenuOptionLength);
+		context.validateLength(`${optionPath}.description`, option.description, 0, MaximumSelectMenuOptionLength);
+
+		if (values.has(option.value)) {
+			context.report(
+				`${optionPath}.value`,
+				ComponentValidationErrorCode.DuplicateValue,
+				'Option values must be unique',
+			);
+		}
+
+		values.add(option.value);
+	}
+}
+
+function validateTextInput(context: ValidationContext, path: string, textInput: APITextInputComponent) {
+	context.validateCustomId(`${path}.custom_id`, textInput.custom_id);
+	context.validateLength(`${path}.label`, textInput.label, 1, MaximumTextInputLabelLength);
+	context.validateLength(`${path}.placeholder`, textInput.placeholder, 0, MaximumTextInputPlaceholderLength);
+	context.validateLength(`${path}.value`, textInput.value, 0, MaximumTextInputLength);
+	context.validateRange(
+		path,
+		['min_length', 'max_length'],
+		textInput,
+		[0, MaximumTextInputLength],
+		[1, MaximumTextInputLength],
+	);
+}
+
+function validateActionRows(
+	context: ValidationContext,
+	path: string,
+	rows: readonly APIActionRowComponent<APIMessageActionRowComponent | APIModalActionRowComponent>[],
+	isModal: boolean,
+) {
+	if (rows.length > MaximumActionRows) {
+		context.report(
+			path,
+			ComponentValidationErrorCode.TooManyItems,
+			`Must be ${MaximumActionRows} or fewer in length`,
+		);
+	}
+
+	for (const [rowIndex, row] of rows.entries()) {
+		const rowPath = path ? `${path}[${rowIndex}]` : `[${rowIndex}]`;
+
+		if (row.type !== ComponentType.ActionRow) {
+			context.report(
+				`${rowPath}.type`,
+				ComponentValidationErrorCode.InvalidComponentType,
+				'Top-level components must be action rows',
+			);
+			continue;
+		}
+
+		const components = row.components as (APIMessageActionRowComponent | APIModalActionRowComponent)[];
+
+		if (components.length === 0) {
+			context.report(
+				`${rowPath}.components`,
+				ComponentValidationErrorCode.NotEnoughItems,
+				'Must have at least 1 item',
+			);
+		} else if (components.length > MaximumButtonsPerRow) {
+			context.report(
+				`${rowPath}.components`,
+				ComponentValidationErrorCode.TooManyItems,
+				`Must be ${MaximumButtonsPerRow} or fewer in length`,
+			);
+		}
+
+		for (const [index, component] of components.entries()) {
+			const componentPath = `${rowPath}.components[${index}]`;
+
+			if (component.type === ComponentType.TextInput) {
+				if (!isModal) {
+					context.report(
+						`${componentPath}.type`,
+						ComponentValidationErrorCode.InvalidComponentType,
+						'Text inputs can only be used in modals',
+					);
+				} else if (components.length > 1) {
+					context.report(
+						`${componentPath}.type`,
+						ComponentValidationErrorCode.InvalidComponentType,
+						'Text inputs must be alone in their action row',
+					);
+				}
+
+				validateTextInput(context, componentPath, component);
+			} else if (isModal) {
+				context.report(
+					`${componentPath}.type`,
+					ComponentValidationErrorCode.InvalidComponentType,
+					'Modals can only contain text inputs',
+				);
+			} else if (component.type === ComponentType.Button) {
+				validateButton(context, componentPath, component);
+			} else if (SelectMenuTypes.has(component.type)) {
+				if (components.length > 1) {
+					context.report(
+						`${componentPath}.type`,
+						ComponentValidationErrorCode.InvalidComponentType,
+						'Select menus must be alone in their action row',
+					);
+				}
+
+				validateSelectMenu(context, componentPath, component);
+			} else {
+				context.report(
+					`${componentPath}.type`,
+					ComponentValidationErrorCode.InvalidComponentType,
+					'Action rows can only contain buttons and select menus',
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Validates the components of a message against the constraints documented by Discord, so that mistakes can be
+ * reported before the message is sent
+ *
+ * See https://discord.com/developers/docs/interactions/message-components
+ *
+ * @param components The action rows of the message
+ * @returns The problems found in the components, or an empty array if they are valid
+ */
+export function validateMessageComponents(
+	components: readonly APIActionRowComponent<APIMessageActionRowComponent>[],
+): ComponentValidationError[] {
+	const context = new ValidationContext();
+	validateActionRows(context, '', components, false);
+	return context.errors;
+}
+
+/**
+ * Validates a modal against the constraints documented by Discord, so that mistakes can be reported before the modal
+ * is shown
+ *
+ * See https://discord.com/developers/docs/interactions/receiving-and-responding#interaction-response-object-modal
+ *
+ * @param modal The modal to validate
+ * @returns The problems found in the modal, or an empty array if it is valid
+ */
+export function validateModal(modal: APIModalInteractionResponseCallbackData): ComponentValidationError[] {
+	const context = new ValidationContext();
+
+	context.validateCustomId('custom_id', modal.custom_id);
+	context.validateLength('title', modal.title, 1, MaximumModalTitleLength);
+
+	if (modal.components.length === 0) {
+		context.report('components', ComponentValidationErrorCode.NotEnoughItems, 'Must have at least 1 item');
+	}
+
+	validateActionRows(context, 'components', modal.components, true);
+	return context.errors;
+}
@@ -0,0 +1,199 @@
+import type { APIEmbed } from '../../payloads/v10/mod.ts';
+
+/**
+ * The reasons an embed can fail validation
+ */
+export enum EmbedValidationErrorCode {
+	/**
+	 * A string is too short or too long
+	 */
+	InvalidLength = 'INVALID_LENGTH',
+	/**
+	 * A list has more items than Discord allows
+	 */
+	TooManyItems = 'TOO_MANY_ITEMS',
+	/**
+	 * The combined length of the text of the embeds is too large
+	 */
+	EmbedTooLarge = 'EMBED_TOO_LARGE',
+}
+
+/**
+ * A single problem found while validating embeds
+ */
+export interface EmbedValidationError {
+	/**
+	 * The path to the field the error is about (for instance `[0].fields[2].value`), or an empty string if the error is
+	 * about the embeds as a whole
+	 */
+	path: string;
+	/**
+	 * The reason the field failed validation
+	 */
+	code: EmbedValidationErrorCode;
+	/**
+	 * The human readable error message
+	 */
+	message: string;
+}
+
+/**
+ * The limits Discord enforces on embeds
+ *
+ * See https://discord.com/developers/docs/resources/message#embed-object-embed-limits
+ */
+export const EmbedLimits = {
+	/**
+	 * The maximum number of embeds in a message
+	 */
+	Embeds: 10,
+	/**
+	 * The maximum length of the title of an embed
+	 */
+	Title: 256,
+	/**
+	 * The maximum length of the description of an embed
+	 */
+	Description: 4_096,
+	/**
+	 * The maximum number of fields in an embed
+	 */
+	Fields: 25,
+	/**
+	 * The maximum length of the name of a field
+	 */
+	FieldName: 256,
+	/**
+	 * The maximum length of the value of a field
+	 */
+	FieldValue: 1_024,
+	/**
+	 * The maximum length of the text of the footer of an embed
+	 */
+	FooterText: 2_048,
+	/**
+	 * The maximum length of the name of the author of an embed
+	 */
+	AuthorName: 256,
+	/**
+	 * The maximum combined length of the text of all the embeds of a message
+	 */
+	Total: 6_000,
+} as const;
+
+// Freeze the object so it can't be changed
+Object.freeze(EmbedLimits);
+
+function validateLength(
+	errors: EmbedValidationError[],
+	path: string,
+	value: string | undefined,
+	min: number,
+	max: number,
+) {
+	if (value !== undefined && (value.length < min || value.length > max)) {
+		errors.push({
+			path,
+			code: EmbedValidationErrorCode.InvalidLength,
+			message: `Must be between ${min} and ${max} characters long`,
+		});
+	}
+}
+
+function validateEmbedFields(errors: EmbedValidationError[], prefix: string, embed: APIEmbed) {
+	validateLength(errors, `${prefix}title`, embed.title, 0, EmbedLimits.Title);
+	validateLength(errors, `${prefix}description`, embed.description, 0, EmbedLimits.Description);
+	validateLength(errors, `${prefix}footer.text`, embed.footer?.text, 0, EmbedLimits.FooterText);
+	validateLength(errors, `${prefix}author.name`, embed.author?.name, 0, EmbedLimits.AuthorName);
+
+	const fields = embed.fields ?? [];
+
+	if (fields.length > EmbedLimits.Fields) {
+		errors.push({
+			path: `${prefix}fields`,
+			code: EmbedValidationErrorCode.TooManyItems,
+			message: `Must be ${EmbedLimits.Fields} or fewer in length`,
+		});
+	}
+
+	for (const [index, field] of fields.entries()) {
+		validateLength(errors, `${prefix}fields[${index}].name`, field.name, 1, EmbedLimits.FieldName);
+		validateLength(errors, `${prefix}fields[${index}].value`, field.value, 1, EmbedLimits.FieldValue);
+	}
+}
+
+function validateTotalLength(errors: EmbedValidationError[], embeds: APIEmbed | readonly APIEmbed[]) {
+	const length = totalEmbedLength(embeds);
+
+	if (length > EmbedLimits.Total) {
+		errors.push({
+			path: '',
+			code: EmbedValidationErrorCode.EmbedTooLarge,
+			message: `The combined length of the embeds must be ${EmbedLimits.Total} or fewer characters, got ${length}`,
+		});
+	}
+}
+
+/**
+ * Computes the length Discord counts towards the {@link EmbedLimits.Total} limit, which is the combined length of the
+ * title, description, field names and values, footer text and author name of the embeds
+ *
+ * @param embeds The embed, or the embeds of a message
+ */
+export function totalEmbedLength(embeds: APIEmbed | readonly APIEmbed[]): number {
+	if (Array.isArray(embeds)) {
+		return (embeds as readonly APIEmbed[]).reduce((total, embed) => total + totalEmbedLength(embed), 0);
+	}
+
+	const embed = embeds as APIEmbed;
+
+	return (
+		(embed.title?.length ?? 0) +
+		(embed.description?.length ?? 0) +
+		(embed.fields ?? []).reduce((total, field) => total + field.name.length + field.value.length, 0) +
+		(embed.footer?.text.length ?? 0) +
+		(embed.author?.name.length ?? 0)
+	);
+}
+
+/**
+ * Validates an embed against the limits documented by Discord
+ *
+ * @param embed The embed to validate
+ * @returns The problems found in the embed, or an empty array if it is valid
+ */
+export function validateEmbed(embed: APIEmbed): EmbedValidationError[] {
+	const errors: EmbedValidationError[] = [];
+
+	validateEmbedFields(errors, '', embed);
+	validateTotalLength(errors, embed);
+
+	return errors;
+}
+
+/**
+ * Validates the embeds of a message (for instance the `embeds` of a `RESTPostAPIChannelMessageJSONBody`) against the
+ * limits documented by Discord, including the limit on their combined length
+ *
+ * @param embeds The embeds to validate
+ * @returns The problems found in the embeds, with paths prefixed by the index of their embed
+ */
+export function validateEmbeds(embeds: readonly APIEmbed[]): EmbedValidationError[] {
+	const errors: EmbedValidationError[] = [];
+
+	if (embeds.length > EmbedLimits.Embeds) {
+		errors.push({
+			path: '',
+			code: EmbedValidationErrorCode.TooManyItems,
+			message: `Must be ${EmbedLimits.Embeds} or fewer in length`,
+		});
+	}
+
+	for (const [index, embed] of embeds.entries()) {
+		validateEmbedFields(errors, `[${index}].`, embed);
+	}
+
+	validateTotalLength(errors, embeds);
+
+	return errors;
+}
@@ -0,0 +1,199 @@
+import type {
+	APIApplicationCommandAutocompleteResponse,
+	APIApplicationCommandOptionChoice,
+	APIInteraction,
+	APIInteractionResponse,
+	APIInteractionResponseCallbackData,
+	APIInteractionResponseChannelMessageWithSource,
+	APIInteractionResponseDeferredChannelMessageWithSource,
+	APIInteractionResponseDeferredMessageUpdate,
+	APIInteractionResponsePong,
+	APIInteractionResponseUpdateMessage,
+	APIModalInteractionResponse,
+	APIModalInteractionResponseCallbackData,
+} from '../../payloads/v10/mod.ts';
+import { InteractionResponseType, InteractionType } from '../../payloads/v10/mod.ts';
+
+/**
+ * The response types allowed for each interaction type
+ *
+ * See https://discord.com/developers/docs/interactions/receiving-and-responding#interaction-response-object-interaction-callback-type
+ */
+export const AllowedInteractionResponseTypes = {
+	[InteractionType.Ping]: [InteractionResponseType.Pong],
+	[InteractionType.ApplicationCommand]: [
+		InteractionResponseType.ChannelMessageWithSource,
+		InteractionResponseType.DeferredChannelMessageWithSource,
+		InteractionResponseType.Modal,
+		InteractionResponseType.PremiumRequired,
+		InteractionResponseType.LaunchActivity,
+	],
+	[InteractionType.MessageComponent]: [
+		InteractionResponseType.ChannelMessageWithSource,
+		InteractionResponseType.DeferredChannelMessageWithSource,
+		InteractionResponseType.DeferredMessageUpdate,
+		InteractionResponseType.UpdateMessage,
+		InteractionResponseType.Modal,
+		InteractionResponseType.PremiumRequired,
+		InteractionResponseType.LaunchActivity,
+	],
+	[InteractionType.ApplicationCommandAutocomplete]: [InteractionResponseType.ApplicationCommandAutocompleteResult],
+	[InteractionType.ModalSubmit]: [
+		InteractionResponseType.ChannelMessageWithSource,
+		InteractionResponseType.DeferredChannelMessageWithSource,
+		InteractionResponseType.DeferredMessageUpdate,
+		InteractionResponseType.UpdateMessage,
+		InteractionResponseType.PremiumRequired,
+	],
+} as const satisfies Record<InteractionType, readonly InteractionResponseType[]>;
+
+// Freeze the object so it can't be changed
+Object.freeze(AllowedInteractionResponseTypes);
+
+/**
+ * The responses allowed for an interaction
+ *
+ * @example
+ * ```ts
+ * type Responses = AllowedResponsesFor<APIApplicationCommandAutocompleteInteraction>;
+ * // => APIApplicationCommandAutocompleteResponse
+ * ```
+ */
+export type AllowedResponsesFor<Interaction extends APIInteraction> = Extract<
+	APIInteractionResponse,
+	{ type: (typeof AllowedInteractionResponseTypes)[Interaction['type']][number] }
+>;
+
+type RespondableInteraction<Interaction extends APIInteraction, Type extends InteractionResponseType> =
+	Interaction extends unknown ?
+		[Type] extends [AllowedResponsesFor<Interaction>['type']] ?
+			Interaction
+		:	never
+	:	never;
+
+/**
+ * The interactions that can be responded to with a response type
+ */
+export type InteractionRespondableWith<Type extends InteractionResponseType> = RespondableInteraction<
+	APIInteraction,
+	Type
+>;
+
+/**
+ * Checks whether a response type is allowed for an interaction
+ *
+ * @param interaction The interaction to respond to
+ * @param type The response type to check
+ */
+export function isAllowedResponseType<Interaction extends APIInteraction>(
+	interaction: Interaction,
+	type: InteractionResponseType,
+): type is AllowedResponsesFor<Interaction>['type'] {
+	return (AllowedInteractionResponseTypes[interaction.type] as readonly InteractionResponseType[]).includes(type);
+}
+
+function assertAllowedResponseType(interaction: APIInteraction, type: InteractionResponseType) {
+	if (!isAllowedResponseType(interaction, type)) {
+		throw new RangeError(
+			`${InteractionResponseType[type]} responses are not allowed for ${InteractionType[interaction.type]} interactions`,
+		);
+	}
+}
+
+/**
+ * Creates the response acknowledging a ping interaction
+ *
+ * @param interaction The interaction to respond to
+ */
+export function createPongResponse(
+	interaction: InteractionRespondableWith<InteractionResponseType.Pong>,
+): APIInteractionResponsePong {
+	assertAllowedResponseType(interaction, InteractionResponseType.Pong);
+	return { type: InteractionResponseType.Pong };
+}
+
+/**
+ * Creates the response replying to an interaction with a message
+ *
+ * @param interaction The interaction to respond to
+ * @param data The message to reply with
+ */
+export function createMessageResponse(
+	interaction: InteractionRespondableWith<InteractionResponseType.ChannelMessageWithSource>,
+	data: APIInteractionResponseCallbackData,
+): APIInteractionResponseChannelMessageWithSource {
+	assertAllowedResponseType(interaction, InteractionResponseType.ChannelMessageWithSource);
+	return { type: InteractionResponseType.ChannelMessageWithSource, data };
+}
+
+/**
+ * Creates the response acknowledging an interaction to reply to it later, showing a loading state to the user
+ *
+ * @param interaction The interaction to respond to
+ * @param data The flags of the message that will be sent later
+ */
+export function createDeferredMessageResponse(
+	interaction: InteractionRespondableWith<InteractionResponseType.DeferredChannelMessageWithSource>,
+	data?: Pick<APIInteractionResponseCallbackData, 'flags'>,
+): APIInteractionResponseDeferredChannelMessageWithSource {
+	assertAllowedResponseType(interaction, InteractionResponseType.DeferredChannelMessageWithSource);
+	return data ?
+			{ type: InteractionResponseType.DeferredChannelMessageWithSource, data }
+		:	{ type: InteractionResponseType.DeferredChannelMessageWithSource };
+}
+
+/**
+ * Creates the response acknowledging an interaction to update the message it comes from later
+ *
+ * @param interaction The interaction to respond to
+ */
+export function createDeferredUpdateResponse(
+	interaction: InteractionRespondableWith<InteractionResponseType.DeferredMessageUpdate>,
+): APIInteractionResponseDeferredMessageUpdate {
+	assertAllowedResponseType(interaction, InteractionResponseType.DeferredMessageUpdate);
+	return { type: InteractionResponseType.DeferredMessageUpdate };
+}
+
+/**
+ * Creates the response updating the message an interaction comes from
+ *
+ * @param interaction The interaction to respond to
+ * @param data The new content of the message
+ */
+export function createUpdateMessageResponse(
+	interaction: InteractionRespondableWith<InteractionResponseType.UpdateMessage>,
+	data?: APIInteractionResponseCallbackData,
+): APIInteractionResponseUpdateMessage {
+	assertAllowedResponseType(interaction, InteractionResponseType.UpdateMessage);
+	return data ?
+			{ type: InteractionResponseType.UpdateMessage, data }
+		:	{ type: InteractionResponseType.UpdateMessage };
+}
+
+/**
+ * Creates the response suggesting choices for the focused option of an autocomplete interaction
+ *
+ * @param interaction The interaction to respond to
+ * @param choices The choices to suggest (max 25)
+ */
+export function createAutocompleteResponse(
+	interaction: InteractionRespondableWith<InteractionResponseType.ApplicationCommandAutocompleteResult>,
+	choices: APIApplicationCommandOptionChoice[],
+): APIApplicationCommandAutocompleteResponse {
+	assertAllowedResponseType(interaction, InteractionResponseType.ApplicationCommandAutocompleteResult);
+	return { type: InteractionResponseType.ApplicationCommandAutocompleteResult, data: { choices } };
+}
+
+/**
+ * Creates the response showing a modal to the user
+ *
+ * @param interaction The interaction to respond to
+ * @param data The modal to show
+ */
+export function createModalResponse(
+	interaction: InteractionRespondableWith<InteractionResponseType.Modal>,
+	data: APIModalInteractionResponseCallbackData,
+): APIModalInteractionResponse {
+	assertAllowedResponseType(interaction, InteractionResponseType.Modal);
+	return { type: InteractionResponseType.Modal, data };
+}
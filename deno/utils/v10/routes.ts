@@ -0,0 +1,308 @@
+import { Routes } from '../../rest/v10/mod.ts';
+
+type RouteKey = keyof typeof Routes;
+
+type ParameterNamesOf<Args extends unknown[]> = { readonly [Index in keyof Args]: string };
+
+/**
+ * The names of the arguments of every {@link Routes} route, in order
+ *
+ * Names ending with `?` are for optional arguments that, when omitted, change the shape of the route
+ */
+export const RouteParameterNames = {
+	applicationRoleConnectionMetadata: ['applicationId'],
+	guildAutoModerationRules: ['guildId'],
+	guildAutoModerationRule: ['guildId', 'ruleId'],
+	guildAuditLog: ['guildId'],
+	channel: ['channelId'],
+	channelMessages: ['channelId'],
+	channelMessage: ['channelId', 'messageId'],
+	channelMessageCrosspost: ['channelId', 'messageId'],
+	channelMessageOwnReaction: ['channelId', 'messageId', 'emoji'],
+	channelMessageUserReaction: ['channelId', 'messageId', 'emoji', 'userId'],
+	channelMessageReaction: ['channelId', 'messageId', 'emoji'],
+	channelMessageAllReactions: ['channelId', 'messageId'],
+	channelBulkDelete: ['channelId'],
+	channelPermission: ['channelId', 'overwriteId'],
+	channelInvites: ['channelId'],
+	channelFollowers: ['channelId'],
+	channelTyping: ['channelId'],
+	channelPins: ['channelId'],
+	channelPin: ['channelId', 'messageId'],
+	channelRecipient: ['channelId', 'userId'],
+	guildEmojis: ['guildId'],
+	guildEmoji: ['guildId', 'emojiId'],
+	guilds: [],
+	guild: ['guildId'],
+	guildPreview: ['guildId'],
+	guildChannels: ['guildId'],
+	guildMember: ['guildId', 'userId'],
+	guildMembers: ['guildId'],
+	guildMembersSearch: ['guildId'],
+	guildCurrentMemberNickname: ['guildId'],
+	guildMemberRole: ['guildId', 'memberId', 'roleId'],
+	guildMFA: ['guildId'],
+	guildBans: ['guildId'],
+	guildBan: ['guildId', 'userId'],
+	guildRoles: ['guildId'],
+	guildRole: ['guildId', 'roleId'],
+	guildPrune: ['guildId'],
+	guildVoiceRegions: ['guildId'],
+	guildInvites: ['guildId'],
+	guildIntegrations: ['guildId'],
+	guildIntegration: ['guildId', 'integrationId'],
+	guildWidgetSettings: ['guildId'],
+	guildWidgetJSON: ['guildId'],
+	guildVanityUrl: ['guildId'],
+	guildWidgetImage: ['guildId'],
+	invite: ['code'],
+	template: ['code'],
+	guildTemplates: ['guildId'],
+	guildTemplate: ['guildId', 'code'],
+	pollAnswerVoters: ['channelId', 'messageId', 'answerId'],
+	expirePoll: ['channelId', 'messageId'],
+	threads: ['parentId', 'messageId?'],
+	guildActiveThreads: ['guildId'],
+	channelThreads: ['channelId', 'archivedStatus'],
+	channelJoinedArchivedThreads: ['channelId'],
+	threadMembers: ['threadId', 'userId?'],
+	user: ['userId'],
+	userApplicationRoleConnection: ['applicationId'],
+	userGuilds: [],
+	userGuildMember: ['guildId'],
+	userGuild: ['guildId'],
+	userChannels: [],
+	userConnections: [],
+	voiceRegions: [],
+	channelWebhooks: ['channelId'],
+	guildWebhooks: ['guildId'],
+	webhook: ['webhookId', 'webhookToken?'],
+	webhookMessage: ['webhookId', 'webhookToken', 'messageId'],
+	webhookPlatform: ['webhookId', 'webhookToken', 'platform'],
+	gateway: [],
+	gatewayBot: [],
+	oauth2CurrentApplication: [],
+	oauth2CurrentAuthorization: [],
+	oauth2Authorization: [],
+	oauth2TokenExchange: [],
+	oauth2TokenRevocation: [],
+	applicationCommands: ['applicationId'],
+	applicationCommand: ['applicationId', 'commandId'],
+	applicationGuildCommands: ['applicationId', 'guildId'],
+	applicationGuildCommand: ['applicationId', 'guildId', 'commandId'],
+	interactionCallback: ['interactionId', 'interactionToken'],
+	guildMemberVerification: ['guildId'],
+	guildVoiceState: ['guildId', 'userId'],
+	guildApplicationCommandsPermissions: ['applicationId', 'guildId'],
+	applicationCommandPermissions: ['applicationId', 'guildId', 'commandId'],
+	guildWelcomeScreen: ['guildId'],
+	stageInstances: [],
+	stageInstance: ['channelId'],
+	sticker: ['stickerId'],
+	stickerPacks: [],
+	stickerPack: ['packId'],
+	nitroStickerPacks: [],
+	guildStickers: ['guildId'],
+	guildSticker: ['guildId', 'stickerId'],
+	guildScheduledEvents: ['guildId'],
+	guildScheduledEvent: ['guildId', 'guildScheduledEventId'],
+	guildScheduledEventUsers: ['guildId', 'guildScheduledEventId'],
+	guildOnboarding: ['guildId'],
+	currentApplication: [],
+	entitlements: ['applicationId'],
+	entitlement: ['applicationId', 'entitlementId'],
+	skus: ['applicationId'],
+	guildBulkBan: ['guildId'],
+	consumeEntitlement: ['applicationId', 'entitlementId'],
+	applicationEmojis: ['applicationId'],
+	applicationEmoji: ['applicationId', 'emojiId'],
+	skuSubscriptions: ['skuId'],
+	skuSubscription: ['skuId', 'subscriptionId'],
+	sendSoundboardSound: ['channelId'],
+	soundboardDefaultSounds: [],
+	guildSoundboardSounds: ['guildId'],
+	guildSoundboardSound: ['guildId', 'soundId'],
+} as const satisfies {
+	[Route in RouteKey]: ParameterNamesOf<Required<Parameters<(typeof Routes)[Route]>>>;
+};
+
+// Freeze the object so it can't be changed
+Object.freeze(RouteParameterNames);
+
+type ParameterNames<Route extends RouteKey> = (typeof RouteParameterNames)[Route][number];
+
+/**
+ * The parameters extracted from a path matching a {@link Routes} route
+ */
+export type RouteParameters<Route extends RouteKey> = {
+	[Name in ParameterNames<Route> as Name extends `${infer Optional}?` ? Optional : never]?: string;
+} & {
+	[Name in ParameterNames<Route> as Name extends `${string}?` ? never : Name]: string;
+};
+
+/**
+ * The result of matching a path against {@link Routes}
+ */
+export type RouteMatch = {
+	[Route in RouteKey]: {
+		/**
+		 * The key of the matched route in {@link Routes}
+		 */
+		route: Route;
+		/**
+		 * The decoded parameters of the route
+		 */
+		params: RouteParameters<Route>;
+	};
+}[RouteKey];
+
+interface CompiledRoute {
+	route: RouteKey;
+	segments: (number | string)[];
+	names: string[];
+}
+
+const ParameterPlaceholder = /^__parameter(?<index>\d+)__$/;
+
+function compileRoute(route: RouteKey, argumentCount: number): CompiledRoute | null {
+	const args = Array.from({ length: argumentCount }, (_, index) => `__parameter${index}__`);
+	const path = (Routes[route] as (...routeArgs: string[]) => string)(...args);
+	const segments = path
+		.slice(1)
+		.split('/')
+		.map((segment) => {
+			const index = ParameterPlaceholder.exec(segment)?.groups?.index;
+			return index === undefined ? segment : Number(index);
+		});
+
+	// Every argument has to be part of the path, otherwise a longer variant of the route already covers it
+	if (segments.filter((segment) => typeof segment === 'number').length !== argumentCount) return null;
+
+	return {
+		route,
+		segments,
+		names: RouteParameterNames[route].slice(0, argumentCount).map((name) => name.replace('?', '')),
+	};
+}
+
+/**
+ * Orders routes by their number of segments, then so that literal segments take precedence over parameters, for
+ * instance so that `/guilds/{guild.id}/members/search` is matched before `/guilds/{guild.id}/members/{user.id}`
+ */
+function compareRouteSpecificity(a: CompiledRoute, b: CompiledRoute) {
+	if (a.segments.length !== b.segments.length) return a.segments.length - b.segments.length;
+
+	for (let index = 0; index < a.segments.length; index++) {
+		const aIsParameter = typeof a.segments[index] === 'number';
+		const bIsParameter = typeof b.segments[index] === 'number';
+
+		if (aIsParameter !== bIsParameter) return aIsParameter ? 1 : -1;
+	}
+
+	return 0;
+}
+
+const CompiledRoutes: CompiledRoute[] = Object.keys(RouteParameterNames)
+	.flatMap((route) => {
+		const names = RouteParameterNames[route as RouteKey] as readonly string[];
+		const required = names.filter((name) => !name.endsWith('?')).length;
+		const variants: CompiledRoute[] = [];
+
+		for (let count = names.length; count >= required; count--) {
+			const compiled = compileRoute(route as RouteKey, count);
+			if (compiled) variants.push(compiled);
+		}
+
+		return variants;
+	})
+	.sort(compareRouteSpecificity);
+
+const APIPathPrefix = /^\/api(?:\/v\d+)?(?=\/)/;
+
+function decodeSegment(segment: string) {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		// A malformed percent-escape can't come from a route built by the API
+		return null;
+	}
+}
+
+/**
+ * Matches a request path back to the {@link Routes} route that builds it
+ *
+ * The path may include the `/api` or `/api/v{version}` prefix and a query string, which are ignored
+ *
+ * @example
+ * ```ts
+ * matchRoute('/channels/123/messages/456/reactions/%F0%9F%91%8D/@me');
+ * // => { route: 'channelMessageOwnReaction', params: { channelId: '123', messageId: '456', emoji: '👍' } }
+ * ```
+ * @param path The path to match
+ * @returns The matched route and its decoded parameters, or `null` if no route matches the path (including when a
+ * parameter holds a malformed percent-escape)
+ */
+export function matchRoute(path: string): RouteMatch | null {
+	const [pathname] = path.split('?') as [string];
+	const segments = pathname.replace(APIPathPrefix, '').slice(1).split('/');
+
+	for (const compiled of CompiledRoutes) {
+		if (compiled.segments.length !== segments.length) continue;
+
+		const params: Record<string, string> = {};
+		const matches = compiled.segments.every((segment, index) => {
+			if (typeof segment === 'string') return segment === segments[index];
+
+			const value = decodeSegment(segments[index]!);
+			if (value === null) return false;
+
+			params[compiled.names[segment]!] = value;
+			return value !== '';
+		});
+
+		if (matches) return { route: compiled.route, params } as RouteMatch;
+	}
+
+	return null;
+}
+
+/**
+ * The parameters that Discord uses to separate the rate limits of a route
+ *
+ * See https://discord.com/developers/docs/topics/rate-limits#rate-limits
+ */
+const MajorParameterNames = ['channelId', 'parentId', 'threadId', 'guildId', 'webhookId', 'webhookToken'];
+
+/**
+ * Gets the major parameters of a matched route, which Discord uses to separate the rate limits of a route
+ *
+ * See https://discord.com/developers/docs/topics/rate-limits#rate-limits
+ *
+ * @param match The matched route, as returned by {@link matchRoute}
+ * @returns The values of the major parameters of the route, joined by `:`, or `null` if the route has none
+ */
+export function getRouteMajorParameter(match: RouteMatch): string | null {
+	const params = match.params as Record<string, string | undefined>;
+	const values = MajorParameterNames.map((name) => params[name]).filter((value) => value !== undefined);
+
+	return values.length ? values.join(':') : null;
+}
+
+/**
+ * Computes the key of the rate limit bucket a request falls in, made of its method, route and major parameters
+ *
+ * Requests to different routes may still share a bucket on Discord's side, so this key should be combined with the
+ * `X-RateLimit-Bucket` header once it is known
+ *
+ * See https://discord.com/developers/docs/topics/rate-limits#rate-limits
+ *
+ * @param method The HTTP method of the request
+ * @param path The path of the request
+ * @returns The key of the bucket, or `null` if the path does not match any route
+ */
+export function getRateLimitBucketKey(method: string, path: string): string | null {
+	const match = matchRoute(path);
+	if (!match) return null;
+
+	return `${method.toUpperCase()}:${match.route}:${getRouteMajorParameter(match) ?? 'global'}`;
+}
@@ -18,6 +18,8 @@ import type {
 } from '../payloads/v9/mod.ts';
 import { ApplicationCommandType, ButtonStyle, ComponentType, InteractionType } from '../payloads/v9/mod.ts';
 
+export * from './common/mod.ts';
+
 // Interactions
 
 /**
@@ -1,4 +1,4 @@
 // This file exports all the types available in the recommended voice gateway version
 // Thereby, things MAY break in the future. Try sticking to imports from a specific version
 
-export * from './v4.ts';
+export * from './v8.ts';
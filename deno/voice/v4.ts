@@ -1,3 +1,9 @@
+/**
+ * Types extracted from https://discord.com/developers/docs/topics/voice-connections
+ */
+
+import type { Snowflake } from '../globals.ts';
+
 export const VoiceGatewayVersion = '4';
 
 /**
@@ -107,3 +113,395 @@ export enum VoiceCloseCodes {
 	 */
 	UnknownEncryptionMode,
 }
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#transport-encryption-modes
+ */
+export enum VoiceEncryptionMode {
+	/**
+	 * AEAD AES256-GCM (RTP Size)
+	 */
+	AeadAes256GcmRtpSize = 'aead_aes256_gcm_rtpsize',
+	/**
+	 * AEAD XChaCha20 Poly1305 (RTP Size)
+	 */
+	AeadXChaCha20Poly1305RtpSize = 'aead_xchacha20_poly1305_rtpsize',
+	/**
+	 * XSalsa20 Poly1305 Lite (RTP Size)
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	XSalsa20Poly1305LiteRtpSize = 'xsalsa20_poly1305_lite_rtpsize',
+	/**
+	 * AEAD AES256-GCM
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	AeadAes256Gcm = 'aead_aes256_gcm',
+	/**
+	 * XSalsa20 Poly1305
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	XSalsa20Poly1305 = 'xsalsa20_poly1305',
+	/**
+	 * XSalsa20 Poly1305 Suffix
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	XSalsa20Poly1305Suffix = 'xsalsa20_poly1305_suffix',
+	/**
+	 * XSalsa20 Poly1305 Lite
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	XSalsa20Poly1305Lite = 'xsalsa20_poly1305_lite',
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export enum VoiceSpeakingFlags {
+	/**
+	 * Normal transmission of voice audio
+	 */
+	Microphone = 1 << 0,
+	/**
+	 * Transmission of context audio for video, no speaking indicator
+	 */
+	Soundshare = 1 << 1,
+	/**
+	 * Priority speaker, lowering audio of other speakers
+	 */
+	Priority = 1 << 2,
+}
+
+export type VoiceSendPayload = VoiceHeartbeat | VoiceIdentify | VoiceResume | VoiceSelectProtocol | VoiceSpeakingSend;
+
+export type VoiceReceivePayload =
+	| VoiceClientConnect
+	| VoiceClientDisconnect
+	| VoiceHeartbeatAck
+	| VoiceHello
+	| VoiceReady
+	| VoiceResumed
+	| VoiceSessionDescription
+	| VoiceSpeaking;
+
+// #region Server Payloads
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHello {
+	op: VoiceOpcodes.Hello;
+	d: VoiceHelloData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHelloData {
+	/**
+	 * The interval (in milliseconds) the client should heartbeat with
+	 */
+	heartbeat_interval: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-websocket-connection
+ */
+export interface VoiceReady {
+	op: VoiceOpcodes.Ready;
+	d: VoiceReadyData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-websocket-connection
+ */
+export interface VoiceReadyData {
+	/**
+	 * SSRC identifier
+	 */
+	ssrc: number;
+	/**
+	 * UDP IP
+	 */
+	ip: string;
+	/**
+	 * UDP port
+	 */
+	port: number;
+	/**
+	 * Supported encryption modes
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#transport-encryption-modes
+	 */
+	modes: VoiceEncryptionMode[];
+	/**
+	 * An erroneous heartbeat interval that should be ignored in favour of the one sent in {@link VoiceHello}
+	 *
+	 * @deprecated Use the `heartbeat_interval` from the Hello payload instead
+	 */
+	heartbeat_interval?: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHeartbeatAck {
+	op: VoiceOpcodes.HeartbeatAck;
+	d: VoiceHeartbeatAckData;
+}
+
+/**
+ * The nonce that was sent in the acknowledged heartbeat
+ *
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export type VoiceHeartbeatAckData = number;
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSessionDescription {
+	op: VoiceOpcodes.SessionDescription;
+	d: VoiceSessionDescriptionData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSessionDescriptionData {
+	/**
+	 * The selected encryption mode
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#transport-encryption-modes
+	 */
+	mode: VoiceEncryptionMode;
+	/**
+	 * The secret key used for encryption
+	 */
+	secret_key: number[];
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#resuming-voice-connection
+ */
+export interface VoiceResumed {
+	op: VoiceOpcodes.Resumed;
+	d: null;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export interface VoiceSpeaking {
+	op: VoiceOpcodes.Speaking;
+	d: VoiceSpeakingData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export interface VoiceSpeakingData {
+	/**
+	 * The speaking mode flags of the user
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#speaking
+	 */
+	speaking: VoiceSpeakingFlags;
+	/**
+	 * SSRC identifier
+	 */
+	ssrc: number;
+	/**
+	 * The id of the user that is speaking
+	 */
+	user_id: Snowflake;
+}
+
+/**
+ * Sent when a user connects to the voice channel
+ */
+export interface VoiceClientConnect {
+	op: VoiceOpcodes.ClientConnect;
+	d: VoiceClientConnectData;
+}
+
+export interface VoiceClientConnectData {
+	/**
+	 * The id of the user that connected
+	 */
+	user_id: Snowflake;
+	/**
+	 * The SSRC of the user's audio stream
+	 */
+	audio_ssrc: number;
+	/**
+	 * The SSRC of the user's video stream
+	 */
+	video_ssrc: number;
+}
+
+/**
+ * Sent when a user disconnects from the voice channel
+ */
+export interface VoiceClientDisconnect {
+	op: VoiceOpcodes.ClientDisconnect;
+	d: VoiceClientDisconnectData;
+}
+
+export interface VoiceClientDisconnectData {
+	/**
+	 * The id of the user that disconnected
+	 */
+	user_id: Snowflake;
+}
+
+// #endregion Server Payloads
+
+// #region Sendable Payloads
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-websocket-connection
+ */
+export interface VoiceIdentify {
+	op: VoiceOpcodes.Identify;
+	d: VoiceIdentifyData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-websocket-connection
+ */
+export interface VoiceIdentifyData {
+	/**
+	 * The id of the server to connect to
+	 */
+	server_id: Snowflake;
+	/**
+	 * The id of the user to connect as
+	 */
+	user_id: Snowflake;
+	/**
+	 * Voice state session id
+	 */
+	session_id: string;
+	/**
+	 * Voice connection token
+	 */
+	token: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHeartbeat {
+	op: VoiceOpcodes.Heartbeat;
+	d: VoiceHeartbeatData;
+}
+
+/**
+ * A nonce that will be sent back in the heartbeat acknowledgement
+ *
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export type VoiceHeartbeatData = number;
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSelectProtocol {
+	op: VoiceOpcodes.SelectProtocol;
+	d: VoiceSelectProtocolData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSelectProtocolData {
+	/**
+	 * Voice protocol
+	 */
+	protocol: 'udp';
+	/**
+	 * Data associated with the protocol
+	 */
+	data: VoiceSelectProtocolDataData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSelectProtocolDataData {
+	/**
+	 * External IP address, discovered through IP discovery
+	 */
+	address: string;
+	/**
+	 * External UDP port, discovered through IP discovery
+	 */
+	port: number;
+	/**
+	 * The encryption mode to use
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#transport-encryption-modes
+	 */
+	mode: VoiceEncryptionMode;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#resuming-voice-connection
+ */
+export interface VoiceResume {
+	op: VoiceOpcodes.Resume;
+	d: VoiceResumeData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#resuming-voice-connection
+ */
+export interface VoiceResumeData {
+	/**
+	 * The id of the server to connect to
+	 */
+	server_id: Snowflake;
+	/**
+	 * Voice state session id
+	 */
+	session_id: string;
+	/**
+	 * Voice connection token
+	 */
+	token: string;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export interface VoiceSpeakingSend {
+	op: VoiceOpcodes.Speaking;
+	d: VoiceSpeakingSendData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export interface VoiceSpeakingSendData {
+	/**
+	 * The speaking mode flags
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#speaking
+	 */
+	speaking: VoiceSpeakingFlags;
+	/**
+	 * Should be set to 0 for bots that use the voice gateway
+	 */
+	delay: number;
+	/**
+	 * SSRC identifier
+	 */
+	ssrc: number;
+}
+
+// #endregion Sendable Payloads
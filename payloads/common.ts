@@ -342,3 +342,64 @@ export interface RESTRateLimit {
 	 */
 	retry_after: number;
 }
+
+/**
+ * https://discord.com/developers/docs/topics/rate-limits#header-format-rate-limit-header-examples
+ */
+export enum RateLimitScope {
+	/**
+	 * The rate limit is per user or bot
+	 */
+	User = 'user',
+	/**
+	 * The rate limit is the global rate limit of the user or bot
+	 */
+	Global = 'global',
+	/**
+	 * The rate limit is shared by every user or bot using the resource, and does not count towards the rate limits of
+	 * the requester
+	 */
+	Shared = 'shared',
+}
+
+/**
+ * The rate limit headers Discord sends with REST responses, with their names in lowercase
+ *
+ * https://discord.com/developers/docs/topics/rate-limits#header-format
+ */
+export interface RESTRateLimitHeaders {
+	/**
+	 * The number of requests that can be made
+	 */
+	'x-ratelimit-limit'?: `${number}`;
+	/**
+	 * The number of remaining requests that can be made
+	 */
+	'x-ratelimit-remaining'?: `${number}`;
+	/**
+	 * Epoch time (seconds since 00:00:00 UTC on January 1, 1970) at which the rate limit resets
+	 */
+	'x-ratelimit-reset'?: `${number}`;
+	/**
+	 * Total time (in seconds) of when the current rate limit bucket will reset. Can have decimals to match previous
+	 * millisecond ratelimit precision
+	 */
+	'x-ratelimit-reset-after'?: `${number}`;
+	/**
+	 * A unique string denoting the rate limit being encountered (non-inclusive of top-level resources in the path)
+	 */
+	'x-ratelimit-bucket'?: string;
+	/**
+	 * Returned only on HTTP 429 responses if the rate limit encountered is the global rate limit (not per-route)
+	 */
+	'x-ratelimit-global'?: 'true';
+	/**
+	 * Returned only on HTTP 429 responses. Value can be `user` (per bot or user limit), `global` (per bot or user global
+	 * limit), or `shared` (per resource limit)
+	 */
+	'x-ratelimit-scope'?: RateLimitScope;
+	/**
+	 * Returned only on HTTP 429 responses, the number of seconds to wait before submitting another request
+	 */
+	'retry-after'?: `${number}`;
+}
@@ -0,0 +1,11 @@
+import { strictEqual } from 'node:assert/strict';
+import { test } from 'node:test';
+import { CDNRouteFormats } from '../../utils/v10';
+
+test('CDNRouteFormats and the format lists it shares between routes are frozen', () => {
+	strictEqual(Object.isFrozen(CDNRouteFormats), true);
+
+	for (const [route, formats] of Object.entries(CDNRouteFormats)) {
+		strictEqual(Object.isFrozen(formats), true, `The formats of ${route} are not frozen`);
+	}
+});
@@ -0,0 +1,13 @@
+import { GatewayCloseCodes } from '../../gateway/v10';
+import { RPCCloseEventCodes } from '../../rpc/v10';
+import type { CloseCodeBehavior } from '../../utils/v10';
+import { GatewayCloseCodeBehaviors, RPCCloseEventCodeBehaviors, VoiceCloseCodeBehaviors } from '../../utils/v10';
+import { VoiceCloseCodes } from '../../voice';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+declare const voiceCloseCode: VoiceCloseCodes;
+
+expectAssignable<Readonly<CloseCodeBehavior>>(GatewayCloseCodeBehaviors[GatewayCloseCodes.InvalidShard]);
+expectAssignable<Readonly<CloseCodeBehavior>>(RPCCloseEventCodeBehaviors[RPCCloseEventCodes.InvalidClientId]);
+expectAssignable<Readonly<CloseCodeBehavior>>(VoiceCloseCodeBehaviors[VoiceCloseCodes.SessionTimeout]);
+expectAssignable<Readonly<CloseCodeBehavior>>(VoiceCloseCodeBehaviors[voiceCloseCode]);
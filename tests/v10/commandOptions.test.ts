@@ -0,0 +1,92 @@
+import { strictEqual, throws } from 'node:assert/strict';
+import { test } from 'node:test';
+import type { APIApplicationCommandInteractionDataOption, APIChatInputApplicationCommandInteraction } from '../../v10';
+import { ApplicationCommandOptionType, ChannelType } from '../../v10';
+import { resolveChatInputCommandOptions } from '../../utils/v10';
+
+const command = {
+	name: 'ban',
+	options: [
+		{ type: ApplicationCommandOptionType.User, name: 'target', required: true },
+		{
+			type: ApplicationCommandOptionType.String,
+			name: 'reason',
+			choices: [
+				{ name: 'Spam', value: 'spam' },
+				{ name: 'Raid', value: 'raid' },
+			],
+		},
+		{ type: ApplicationCommandOptionType.Channel, name: 'log', channel_types: [ChannelType.GuildText] },
+	],
+} as const;
+
+function createInteraction(options: APIApplicationCommandInteractionDataOption[]) {
+	return {
+		data: {
+			name: 'ban',
+			options,
+			resolved: {
+				channels: {
+					'100000000000000001': { id: '100000000000000001', type: ChannelType.GuildVoice },
+				},
+			},
+		},
+	} as unknown as APIChatInputApplicationCommandInteraction;
+}
+
+const target = { type: ApplicationCommandOptionType.User, name: 'target', value: '100000000000000000' } as const;
+
+test('resolveChatInputCommandOptions resolves options matching the definition', () => {
+	const { options } = resolveChatInputCommandOptions(
+		command,
+		createInteraction([target, { type: ApplicationCommandOptionType.String, name: 'reason', value: 'spam' }]),
+	);
+
+	strictEqual(options.target.value, '100000000000000000');
+	strictEqual(options.reason?.value, 'spam');
+});
+
+test('resolveChatInputCommandOptions rejects options not matching the definition', () => {
+	throws(() => resolveChatInputCommandOptions(command, createInteraction([])), RangeError);
+	throws(
+		() =>
+			resolveChatInputCommandOptions(
+				command,
+				createInteraction([{ type: ApplicationCommandOptionType.String, name: 'target', value: 'someone' }]),
+			),
+		RangeError,
+	);
+	throws(
+		() =>
+			resolveChatInputCommandOptions(
+				command,
+				createInteraction([
+					target,
+					{ type: ApplicationCommandOptionType.String, name: 'reason', value: 'other' },
+				]),
+			),
+		RangeError,
+	);
+	throws(
+		() =>
+			resolveChatInputCommandOptions(
+				command,
+				createInteraction([
+					target,
+					{ type: ApplicationCommandOptionType.Channel, name: 'log', value: '100000000000000001' },
+				]),
+			),
+		RangeError,
+	);
+	throws(
+		() =>
+			resolveChatInputCommandOptions(
+				command,
+				createInteraction([
+					target,
+					{ type: ApplicationCommandOptionType.Boolean, name: 'silent', value: true },
+				]),
+			),
+		RangeError,
+	);
+});
@@ -0,0 +1,150 @@
+import type { Snowflake } from '../../globals';
+import type {
+	APIApplicationCommandAutocompleteInteraction,
+	APIAttachment,
+	APIChatInputApplicationCommandInteraction,
+	APIInteractionDataResolvedGuildMember,
+	APIUser,
+} from '../../v10';
+import { ApplicationCommandOptionType, ChannelType } from '../../v10';
+import type { InferredChatInputOptions } from '../../utils/v10';
+import { resolveChatInputCommandOptions, resolveChatInputOptions } from '../../utils/v10';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+declare const interaction: APIChatInputApplicationCommandInteraction;
+declare const autocompleteInteraction: APIApplicationCommandAutocompleteInteraction;
+
+const options = resolveChatInputOptions(interaction);
+
+expectAssignable<string | null>(options.subcommandGroup);
+expectAssignable<string | null>(options.subcommand);
+
+{
+	const option = options.get('target', ApplicationCommandOptionType.User);
+
+	if (option) {
+		expectAssignable<ApplicationCommandOptionType.User>(option.type);
+		expectAssignable<Snowflake>(option.value);
+		expectAssignable<APIUser | null>(option.user);
+		expectAssignable<APIInteractionDataResolvedGuildMember | null>(option.member);
+	}
+}
+
+{
+	const option = options.get('file', ApplicationCommandOptionType.Attachment);
+
+	if (option) {
+		expectAssignable<APIAttachment | null>(option.attachment);
+	}
+}
+
+{
+	const option = options.get('amount', ApplicationCommandOptionType.Integer);
+
+	if (option) {
+		expectAssignable<number>(option.value);
+	}
+}
+
+{
+	const option = options.getFocused();
+
+	if (option) {
+		expectAssignable<number | string>(option.value);
+	}
+}
+
+for (const option of options.options) {
+	if (option.type === ApplicationCommandOptionType.Role) {
+		expectAssignable<Snowflake>(option.value);
+		expectAssignable<string | undefined>(option.role?.name);
+	}
+}
+
+const banCommand = {
+	name: 'ban',
+	description: 'Bans a user',
+	options: [
+		{ type: ApplicationCommandOptionType.User, name: 'target', description: 'The user to ban', required: true },
+		{
+			type: ApplicationCommandOptionType.String,
+			name: 'reason',
+			description: 'The reason of the ban',
+			choices: [
+				{ name: 'Spam', value: 'spam' },
+				{ name: 'Raid', value: 'raid' },
+			],
+		},
+		{
+			type: ApplicationCommandOptionType.Channel,
+			name: 'log',
+			description: 'The channel to log the ban in',
+			channel_types: [ChannelType.GuildText],
+		},
+	],
+} as const;
+
+{
+	const { subcommand, options } = resolveChatInputCommandOptions(banCommand, interaction);
+
+	expectAssignable<null>(subcommand);
+	expectAssignable<APIUser | null>(options.target.user);
+	expectAssignable<'raid' | 'spam' | undefined>(options.reason?.value);
+	expectAssignable<ChannelType.GuildText | undefined>(options.log?.channel?.type);
+
+	// @ts-expect-error: the command has no such option
+	expectAssignable<unknown>(options.duration);
+}
+
+// @ts-expect-error: autocomplete interactions can be missing required options
+resolveChatInputCommandOptions(banCommand, autocompleteInteraction);
+
+const configCommand = {
+	name: 'config',
+	description: 'Configures the bot',
+	options: [
+		{
+			type: ApplicationCommandOptionType.SubcommandGroup,
+			name: 'logs',
+			description: 'Configures the logs',
+			options: [
+				{
+					type: ApplicationCommandOptionType.Subcommand,
+					name: 'set',
+					description: 'Sets the log channel',
+					options: [
+						{
+							type: ApplicationCommandOptionType.Channel,
+							name: 'channel',
+							description: 'The channel',
+							required: true,
+						},
+					],
+				},
+			],
+		},
+		{
+			type: ApplicationCommandOptionType.Subcommand,
+			name: 'reset',
+			description: 'Resets the configuration',
+			options: [
+				{ type: ApplicationCommandOptionType.Boolean, name: 'confirm', description: 'Confirm', required: true },
+			],
+		},
+	],
+} as const;
+
+{
+	const resolved: InferredChatInputOptions<typeof configCommand> = resolveChatInputCommandOptions(
+		configCommand,
+		interaction,
+	);
+
+	if (resolved.subcommand === 'set') {
+		expectAssignable<'logs'>(resolved.subcommandGroup);
+		expectAssignable<Snowflake>(resolved.options.channel.value);
+	} else {
+		expectAssignable<null>(resolved.subcommandGroup);
+		expectAssignable<boolean>(resolved.options.confirm.value);
+	}
+}
@@ -0,0 +1,33 @@
+import type { APIEmbed } from '../../v10';
+import type { EmbedValidationError } from '../../utils/v10';
+import {
+	EmbedLimits,
+	EmbedValidationErrorCode,
+	totalEmbedLength,
+	validateEmbed,
+	validateEmbeds,
+} from '../../utils/v10';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+declare const embed: APIEmbed;
+
+expectAssignable<number>(totalEmbedLength(embed));
+expectAssignable<number>(totalEmbedLength([embed, embed]));
+
+const errors = validateEmbeds([embed, { title: 'Title', fields: [{ name: 'Name', value: 'Value' }] }]);
+
+expectAssignable<EmbedValidationError[]>(errors);
+expectAssignable<EmbedValidationError[]>(validateEmbed(embed));
+
+for (const error of errors) {
+	expectAssignable<string>(error.path);
+	expectAssignable<EmbedValidationErrorCode>(error.code);
+}
+
+expectAssignable<6_000>(EmbedLimits.Total);
+
+// @ts-expect-error: the limits are read-only
+EmbedLimits.Total = 10_000;
+
+// @ts-expect-error: fields must have a name and a value
+validateEmbeds([{ fields: [{ name: 'Name' }] }]);
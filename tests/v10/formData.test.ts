@@ -0,0 +1,56 @@
+import { deepStrictEqual, strictEqual, throws } from 'node:assert/strict';
+import { test } from 'node:test';
+import type { RESTPostAPIChannelMessageJSONBody } from '../../v10';
+import { decodeRESTMultipartBody, encodeRESTMultipartBody } from '../../utils/v10';
+
+test('decodeRESTMultipartBody reverses encodeRESTMultipartBody', () => {
+	const names = ['cat.png', '100%22 off.txt', '%25.txt', 'quote".txt', 'line\r\nbreak.txt', 'ünïcödé.txt'];
+	const files = names.map((name, index) => ({
+		name,
+		data: index % 2 === 0 ? new Uint8Array([0, 13, 10, 45, 45, 255]) : `contents of ${name}\r\n`,
+		contentType: index % 2 === 0 ? 'image/png' : 'text/plain',
+	}));
+	const body: RESTPostAPIChannelMessageJSONBody = { content: 'Look!' };
+
+	const encoded = encodeRESTMultipartBody(body, files);
+	const decoded = decodeRESTMultipartBody<RESTPostAPIChannelMessageJSONBody>(encoded.body, encoded.contentType);
+
+	strictEqual(decoded.payload?.content, 'Look!');
+	deepStrictEqual(
+		decoded.payload?.attachments?.map((attachment) => attachment.filename),
+		names,
+	);
+	deepStrictEqual(
+		decoded.files.map((file) => file.name),
+		names,
+	);
+
+	for (const [index, file] of decoded.files.entries()) {
+		const original = files[index]!;
+
+		strictEqual(file.index, index);
+		strictEqual(file.contentType, original.contentType);
+		deepStrictEqual(
+			file.data,
+			typeof original.data === 'string' ? new TextEncoder().encode(original.data) : original.data,
+		);
+	}
+});
+
+test('encodeRESTMultipartBody rejects content types with line breaks', () => {
+	throws(
+		() => encodeRESTMultipartBody({}, [{ name: 'a.txt', data: '', contentType: 'text/plain\r\nX-Injected: 1' }]),
+		RangeError,
+	);
+});
+
+test('decodeRESTMultipartBody rejects a payload_json part that is not valid JSON', () => {
+	throws(
+		() =>
+			decodeRESTMultipartBody(
+				'--boundary\r\nContent-Disposition: form-data; name="payload_json"\r\n\r\n{\r\n--boundary--\r\n',
+				'multipart/form-data; boundary=boundary',
+			),
+		RangeError,
+	);
+});
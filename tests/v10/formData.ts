@@ -0,0 +1,30 @@
+import type { RESTAPIAttachment, RESTPostAPIChannelMessageJSONBody } from '../../v10';
+import type { RESTDecodedFormDataFile, RESTMultipartBody } from '../../utils/v10';
+import { assignAttachmentIds, decodeRESTMultipartBody, encodeRESTMultipartBody } from '../../utils/v10';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+declare const image: Uint8Array;
+
+const body: RESTPostAPIChannelMessageJSONBody = { content: 'Look!' };
+const files = [{ name: 'cat.png', data: image, contentType: 'image/png', description: 'A cat' }];
+
+const withAttachments = assignAttachmentIds(body, files);
+
+expectAssignable<RESTAPIAttachment[]>(withAttachments.attachments);
+expectAssignable<string | undefined>(withAttachments.content);
+
+const encoded = encodeRESTMultipartBody(body, files);
+
+expectAssignable<RESTMultipartBody>(encoded);
+expectAssignable<Uint8Array>(encoded.body);
+
+// @ts-expect-error: the body must be an object that can hold attachments
+encodeRESTMultipartBody('content', files);
+
+const decoded = decodeRESTMultipartBody<RESTPostAPIChannelMessageJSONBody>(encoded.body, encoded.contentType);
+
+expectAssignable<RESTPostAPIChannelMessageJSONBody | null>(decoded.payload);
+expectAssignable<RESTDecodedFormDataFile[]>(decoded.files);
+expectAssignable<Record<string, string>>(decoded.fields);
+
+expectAssignable<unknown>(decodeRESTMultipartBody('', 'multipart/form-data; boundary=boundary').payload);
@@ -0,0 +1,13 @@
+import { TimestampStyles } from '../../globals';
+import { formatEmoji, formatTimestamp, slashCommandMention, userMention } from '../../utils/v10';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+expectAssignable<'<@123456789012345678>'>(userMention('123456789012345678'));
+expectAssignable<'</ping:123456789012345678>'>(slashCommandMention('ping', '123456789012345678'));
+expectAssignable<'</config set:123456789012345678>'>(slashCommandMention('config', 'set', '123456789012345678'));
+expectAssignable<'</config user set:123456789012345678>'>(
+	slashCommandMention('config', 'user', 'set', '123456789012345678'),
+);
+expectAssignable<'<a:wave:123456789012345678>'>(formatEmoji('wave', '123456789012345678', true));
+expectAssignable<'<:wave:123456789012345678>'>(formatEmoji('wave', '123456789012345678'));
+expectAssignable<`<t:${bigint}:R>`>(formatTimestamp(new Date(), TimestampStyles.RelativeTime));
@@ -0,0 +1,11 @@
+import type { GatewayDispatchEvents, GatewayIntentBits, GatewayMessageCreateDispatch } from '../../gateway/v10';
+import type { GatewayDispatchPayloadForIntents, GatewayIntentsDispatchEvent } from '../../utils/v10';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+declare const payload: GatewayDispatchPayloadForIntents<GatewayIntentBits.GuildMessages>;
+
+expectAssignable<GatewayIntentsDispatchEvent<GatewayIntentBits.GuildMessages>>(payload.t);
+expectAssignable<GatewayDispatchPayloadForIntents<GatewayIntentBits.DirectMessages>>(
+	{} as GatewayMessageCreateDispatch,
+);
+expectAssignable<GatewayIntentsDispatchEvent<GatewayIntentBits.Guilds>>('READY' as GatewayDispatchEvents.Ready);
@@ -0,0 +1,54 @@
+import type {
+	APIApplicationCommandAutocompleteInteraction,
+	APIApplicationCommandAutocompleteResponse,
+	APIChatInputApplicationCommandInteraction,
+	APIInteraction,
+	APIInteractionResponse,
+	APIMessageComponentInteraction,
+	APIModalSubmitInteraction,
+	APIPingInteraction,
+	RESTPostAPIInteractionCallbackJSONBody,
+} from '../../v10';
+import { InteractionResponseType } from '../../v10';
+import type { AllowedResponsesFor } from '../../utils/v10';
+import {
+	createAutocompleteResponse,
+	createDeferredUpdateResponse,
+	createMessageResponse,
+	createModalResponse,
+	createPongResponse,
+	createUpdateMessageResponse,
+} from '../../utils/v10';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+declare const ping: APIPingInteraction;
+declare const command: APIChatInputApplicationCommandInteraction;
+declare const component: APIMessageComponentInteraction;
+declare const autocomplete: APIApplicationCommandAutocompleteInteraction;
+declare const modalSubmit: APIModalSubmitInteraction;
+
+expectAssignable<APIApplicationCommandAutocompleteResponse>({} as AllowedResponsesFor<typeof autocomplete>);
+expectAssignable<APIInteractionResponse>({} as AllowedResponsesFor<APIInteraction>);
+expectAssignable<InteractionResponseType.Pong>({} as AllowedResponsesFor<typeof ping>['type']);
+
+{
+	const type = {} as AllowedResponsesFor<typeof modalSubmit>['type'];
+
+	// @ts-expect-error: modals cannot be shown in response to a modal submission
+	expectAssignable<InteractionResponseType.Modal>(type);
+}
+
+expectAssignable<RESTPostAPIInteractionCallbackJSONBody>(createPongResponse(ping));
+expectAssignable<RESTPostAPIInteractionCallbackJSONBody>(createMessageResponse(command, { content: 'Hello' }));
+expectAssignable<RESTPostAPIInteractionCallbackJSONBody>(createUpdateMessageResponse(component, { content: 'Hello' }));
+expectAssignable<RESTPostAPIInteractionCallbackJSONBody>(createDeferredUpdateResponse(modalSubmit));
+expectAssignable<RESTPostAPIInteractionCallbackJSONBody>(createAutocompleteResponse(autocomplete, []));
+
+// @ts-expect-error: autocomplete interactions can only be responded to with choices
+createUpdateMessageResponse(autocomplete);
+
+// @ts-expect-error: modals cannot be shown in response to a modal submission
+createModalResponse(modalSubmit, { custom_id: 'modal', title: 'Modal', components: [] });
+
+// @ts-expect-error: pongs are only for ping interactions
+createPongResponse(command);
@@ -0,0 +1,46 @@
+import { strictEqual } from 'node:assert/strict';
+import { test } from 'node:test';
+import type { APIGuildMember, APIOverwrite, APIRole } from '../../v10';
+import { OverwriteType, PermissionFlagsBits } from '../../v10';
+import { computePermissions, serializePermissions } from '../../utils/v10';
+
+const AllPermissions = Object.values(PermissionFlagsBits).reduce((all, bit) => all | bit, 0n);
+const TimedOutPermissions = PermissionFlagsBits.ViewChannel | PermissionFlagsBits.ReadMessageHistory;
+
+function createGuild(everyonePermissions: bigint) {
+	return {
+		id: '100000000000000000',
+		owner_id: '100000000000000001',
+		roles: [{ id: '100000000000000000', permissions: serializePermissions(everyonePermissions) } as APIRole],
+	};
+}
+
+function createMember(userId: string, timedOut: boolean) {
+	return {
+		user: { id: userId },
+		roles: [],
+		communication_disabled_until: timedOut ? new Date(Date.now() + 60_000).toISOString() : null,
+	} as unknown as APIGuildMember;
+}
+
+test('computePermissions exempts the owner and administrators from timeouts', () => {
+	const owner = createMember('100000000000000001', true);
+	const administrator = createMember('100000000000000002', true);
+
+	strictEqual(computePermissions(createGuild(0n), owner), AllPermissions);
+	strictEqual(computePermissions(createGuild(PermissionFlagsBits.Administrator), administrator), AllPermissions);
+});
+
+test('computePermissions restricts timed out members even when their overwrites grant every permission', () => {
+	const member = createMember('100000000000000002', true);
+	const overwrites: APIOverwrite[] = [
+		{
+			id: '100000000000000002',
+			type: OverwriteType.Member,
+			allow: serializePermissions(AllPermissions),
+			deny: '0',
+		},
+	];
+
+	strictEqual(computePermissions(createGuild(0n), member, overwrites), TimedOutPermissions);
+});
@@ -0,0 +1,34 @@
+import type {
+	RESTGetAPIChannelMessagesQuery,
+	RESTGetAPIChannelMessagesResult,
+	RESTPostAPIChannelMessageFormDataBody,
+	RESTPostAPIChannelMessageJSONBody,
+} from '../../rest/v10/index';
+import type {
+	RESTRouteDefinition,
+	RESTRouteFormDataBody,
+	RESTRouteJSONBody,
+	RESTRouteQuery,
+	RESTRouteResult,
+	RESTRouteTypes,
+	RouteMethods,
+} from '../../utils/v10';
+import { RequestMethod } from '../../utils/v10';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+declare const routeTypes: RESTRouteTypes;
+
+expectAssignable<{
+	[Route in keyof typeof RouteMethods]: Record<(typeof RouteMethods)[Route][number], RESTRouteDefinition>;
+}>(routeTypes);
+
+declare const query: RESTRouteQuery<'channelMessages', RequestMethod.Get>;
+declare const result: RESTRouteResult<'channelMessages', RequestMethod.Get>;
+declare const json: RESTRouteJSONBody<'channelMessages', RequestMethod.Post>;
+declare const formData: RESTRouteFormDataBody<'channelMessages', RequestMethod.Post>;
+
+expectAssignable<RESTGetAPIChannelMessagesQuery>(query);
+expectAssignable<RESTGetAPIChannelMessagesResult>(result);
+expectAssignable<RESTPostAPIChannelMessageJSONBody>(json);
+expectAssignable<RESTPostAPIChannelMessageFormDataBody>(formData);
+expectAssignable<RequestMethod[]>([RequestMethod.Get, RequestMethod.Post]);
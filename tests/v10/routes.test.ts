@@ -0,0 +1,64 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { test } from 'node:test';
+import { Routes } from '../../rest/v10/index';
+import { RouteParameterNames, matchRoute } from '../../utils/v10';
+
+type RouteKey = keyof typeof Routes;
+
+function buildRoute(route: RouteKey, args: readonly string[]) {
+	return (Routes[route] as (...routeArgs: readonly string[]) => string)(...args);
+}
+
+const routes = Object.keys(RouteParameterNames) as RouteKey[];
+
+// Some deprecated routes build the same paths as the routes that replaced them
+const routesByTemplate = new Map<string, RouteKey[]>();
+
+for (const route of routes) {
+	const template = buildRoute(
+		route,
+		RouteParameterNames[route].map((_, index) => `:${index}`),
+	);
+	routesByTemplate.set(template, [...(routesByTemplate.get(template) ?? []), route]);
+}
+
+test('matchRoute matches the path of every route back to that route', () => {
+	for (const route of routes) {
+		const names = RouteParameterNames[route] as readonly string[];
+		const required = names.filter((name) => !name.endsWith('?')).length;
+
+		for (const count of new Set([names.length, required])) {
+			const args = names.slice(0, count).map((_, index) => String(100_000_000_000_000_000n + BigInt(index)));
+			const path = buildRoute(route, args);
+			const match = matchRoute(path);
+			const template = buildRoute(
+				route,
+				args.map((_, index) => `:${index}`),
+			);
+			const candidates = routesByTemplate.get(template) ?? [route];
+
+			strictEqual(
+				candidates.includes(match?.route as RouteKey),
+				true,
+				`${path} matched ${match?.route}, not ${route}`,
+			);
+			deepStrictEqual(
+				match?.params,
+				Object.fromEntries(args.map((arg, index) => [names[index]!.replace('?', ''), arg])),
+				`${path} has the wrong parameters`,
+			);
+		}
+	}
+});
+
+test('matchRoute prefers literal segments over parameters', () => {
+	strictEqual(
+		matchRoute('/applications/100/guilds/101/commands/permissions')?.route,
+		'guildApplicationCommandsPermissions',
+	);
+	strictEqual(matchRoute('/guilds/100/members/search')?.route, 'guildMembersSearch');
+});
+
+test('matchRoute returns null for malformed percent-escapes', () => {
+	strictEqual(matchRoute('/channels/%E0%A4%A/messages'), null);
+});
@@ -1,5 +1,15 @@
 import { CDNRoutes, Routes } from '../../rest/v10/index';
+import { matchRoute, type RouteMatch, type RouteParameters } from '../../utils/v10';
 import { expectAssignable } from '../__utils__/type-assertions';
 
 expectAssignable<Record<string, (...args: any[]) => `/${string}`>>(Routes);
 expectAssignable<Record<string, (...args: any[]) => `/${string}`>>(CDNRoutes);
+
+expectAssignable<RouteMatch | null>(matchRoute('/channels/123/messages/456/reactions/%F0%9F%91%8D/@me'));
+expectAssignable<RouteMatch | null>(matchRoute('/channels/%E0%A4%A/messages'));
+expectAssignable<RouteMatch>({
+	route: 'channelMessageOwnReaction',
+	params: { channelId: '123', messageId: '456', emoji: '👍' },
+});
+expectAssignable<RouteParameters<'webhook'>>({ webhookId: '123' });
+expectAssignable<RouteParameters<'webhook'>>({ webhookId: '123', webhookToken: 'token' });
@@ -0,0 +1,32 @@
+import { deepStrictEqual, rejects } from 'node:assert/strict';
+import { test } from 'node:test';
+import { createApplicationWebhookEventHarness } from '../../utils/v10';
+
+const entitlementCreate = JSON.stringify({
+	version: 1,
+	application_id: '100000000000000000',
+	type: 1,
+	event: { type: 'ENTITLEMENT_CREATE', timestamp: '2024-10-18T14:42:53.064834', data: {} },
+});
+
+test('replay dispatches recorded events to their handler', async () => {
+	const types: string[] = [];
+	const harness = createApplicationWebhookEventHarness({
+		ENTITLEMENT_CREATE: (_data, event) => {
+			types.push(event.type);
+		},
+	});
+
+	deepStrictEqual(await harness.replay([entitlementCreate]), [{ status: 204, handled: true }]);
+	deepStrictEqual(types, ['ENTITLEMENT_CREATE']);
+});
+
+test('replay rejects events that are not valid JSON or not shaped like webhook events', async () => {
+	const harness = createApplicationWebhookEventHarness({});
+
+	await rejects(harness.replay(['{']), RangeError);
+	await rejects(harness.replay(['null']), RangeError);
+	await rejects(harness.replay([JSON.stringify({ version: 2, type: 1, event: {} })]), RangeError);
+	await rejects(harness.replay([JSON.stringify({ version: 1, type: 1, event: { type: 'UNKNOWN' } })]), RangeError);
+	await rejects(harness.replay([JSON.stringify({ version: 1, type: 'Ping' })]), RangeError);
+});
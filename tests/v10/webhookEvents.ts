@@ -0,0 +1,28 @@
+import type { Snowflake } from '../../globals';
+import type { APIEntitlement, APIUser, APIWebhookEvent, OAuth2Scopes } from '../../v10';
+import { ApplicationWebhookEventType } from '../../v10';
+import type { ApplicationWebhookEventDispatchResult } from '../../utils/v10';
+import { createApplicationWebhookEventDispatcher, createApplicationWebhookEventHarness } from '../../utils/v10';
+import { expectAssignable } from '../__utils__/type-assertions';
+
+declare const payload: APIWebhookEvent;
+
+const dispatch = createApplicationWebhookEventDispatcher({
+	[ApplicationWebhookEventType.ApplicationAuthorized]: (data, event) => {
+		expectAssignable<APIUser>(data.user);
+		expectAssignable<OAuth2Scopes[]>(data.scopes);
+		expectAssignable<ApplicationWebhookEventType.ApplicationAuthorized>(event.type);
+		expectAssignable<string>(event.timestamp);
+	},
+	[ApplicationWebhookEventType.EntitlementCreate]: async (data, _event, payload) => {
+		expectAssignable<APIEntitlement>(data);
+		expectAssignable<Snowflake>(payload.application_id);
+	},
+});
+
+expectAssignable<Promise<ApplicationWebhookEventDispatchResult>>(dispatch(payload));
+
+const harness = createApplicationWebhookEventHarness({});
+
+expectAssignable<Promise<ApplicationWebhookEventDispatchResult[]>>(harness.replay(['{}', payload]));
+expectAssignable<APIWebhookEvent | undefined>(harness.entries[0]?.payload);
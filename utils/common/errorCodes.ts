@@ -0,0 +1,521 @@
+import { RESTJSONErrorCodes } from '../../rest/common';
+
+/**
+ * The broad categories of {@link RESTJSONErrorCodes}
+ */
+export enum RESTJSONErrorCodeCategory {
+	/**
+	 * The request failed for an unspecified reason
+	 */
+	General = 'general',
+	/**
+	 * The resource the request refers to does not exist, or is not visible to the requester
+	 */
+	UnknownResource = 'unknown_resource',
+	/**
+	 * The credentials of the request are missing, invalid, or not sufficient
+	 */
+	Authentication = 'authentication',
+	/**
+	 * The requester is not allowed to perform the action
+	 */
+	Permission = 'permission',
+	/**
+	 * The request hit a rate limit that is reported with an error code instead of (or on top of) the rate limit headers
+	 */
+	RateLimit = 'rate_limit',
+	/**
+	 * A maximum number of resources or actions has been reached
+	 */
+	LimitReached = 'limit_reached',
+	/**
+	 * The request or its content was blocked by a moderation or safety system
+	 */
+	Moderation = 'moderation',
+	/**
+	 * The request was invalid and should not be sent again as is
+	 */
+	Validation = 'validation',
+	/**
+	 * The request could not be handled by Discord at the moment
+	 */
+	ServiceUnavailable = 'service_unavailable',
+}
+
+/**
+ * Information about a {@link RESTJSONErrorCodes} error code
+ */
+export interface RESTJSONErrorCodeMetadata {
+	/**
+	 * The category of the error
+	 */
+	category: RESTJSONErrorCodeCategory;
+	/**
+	 * The message of the error, as found in the documentation
+	 */
+	message: string;
+	/**
+	 * The HTTP status code the error is usually returned with
+	 */
+	status: number;
+	/**
+	 * Whether the request can be sent again as is, after waiting
+	 */
+	retryable: boolean;
+}
+
+function entry(
+	category: RESTJSONErrorCodeCategory,
+	status: number,
+	message: string,
+	retryable: boolean,
+): Readonly<RESTJSONErrorCodeMetadata> {
+	return Object.freeze({ category, message, status, retryable });
+}
+
+const general = (message: string) => entry(RESTJSONErrorCodeCategory.General, 400, message, false);
+const unknownResource = (message: string) => entry(RESTJSONErrorCodeCategory.UnknownResource, 404, message, false);
+const authentication = (message: string, status: number) =>
+	entry(RESTJSONErrorCodeCategory.Authentication, status, message, false);
+const permission = (message: string) => entry(RESTJSONErrorCodeCategory.Permission, 403, message, false);
+const rateLimit = (message: string) => entry(RESTJSONErrorCodeCategory.RateLimit, 429, message, true);
+const limitReached = (message: string, retryable = false) =>
+	entry(RESTJSONErrorCodeCategory.LimitReached, 400, message, retryable);
+const moderation = (message: string) => entry(RESTJSONErrorCodeCategory.Moderation, 400, message, false);
+const validation = (message: string, status = 400) =>
+	entry(RESTJSONErrorCodeCategory.Validation, status, message, false);
+const serviceUnavailable = (message: string, status: number, retryable: boolean) =>
+	entry(RESTJSONErrorCodeCategory.ServiceUnavailable, status, message, retryable);
+
+/**
+ * Information about every {@link RESTJSONErrorCodes} error code
+ *
+ * See https://discord.com/developers/docs/topics/opcodes-and-status-codes#json-json-error-codes
+ */
+export const RESTJSONErrorCodesMetadata: Readonly<Record<RESTJSONErrorCodes, Readonly<RESTJSONErrorCodeMetadata>>> = {
+	[RESTJSONErrorCodes.GeneralError]: general(
+		'General error (such as a malformed request body, amongst other things)',
+	),
+	[RESTJSONErrorCodes.UnknownAccount]: unknownResource('Unknown account'),
+	[RESTJSONErrorCodes.UnknownApplication]: unknownResource('Unknown application'),
+	[RESTJSONErrorCodes.UnknownChannel]: unknownResource('Unknown channel'),
+	[RESTJSONErrorCodes.UnknownGuild]: unknownResource('Unknown guild'),
+	[RESTJSONErrorCodes.UnknownIntegration]: unknownResource('Unknown integration'),
+	[RESTJSONErrorCodes.UnknownInvite]: unknownResource('Unknown invite'),
+	[RESTJSONErrorCodes.UnknownMember]: unknownResource('Unknown member'),
+	[RESTJSONErrorCodes.UnknownMessage]: unknownResource('Unknown message'),
+	[RESTJSONErrorCodes.UnknownPermissionOverwrite]: unknownResource('Unknown permission overwrite'),
+	[RESTJSONErrorCodes.UnknownProvider]: unknownResource('Unknown provider'),
+	[RESTJSONErrorCodes.UnknownRole]: unknownResource('Unknown role'),
+	[RESTJSONErrorCodes.UnknownToken]: unknownResource('Unknown token'),
+	[RESTJSONErrorCodes.UnknownUser]: unknownResource('Unknown user'),
+	[RESTJSONErrorCodes.UnknownEmoji]: unknownResource('Unknown emoji'),
+	[RESTJSONErrorCodes.UnknownWebhook]: unknownResource('Unknown webhook'),
+	[RESTJSONErrorCodes.UnknownWebhookService]: unknownResource('Unknown webhook service'),
+	[RESTJSONErrorCodes.UnknownSession]: unknownResource('Unknown session'),
+	[RESTJSONErrorCodes.UnknownAsset]: unknownResource('Unknown asset'),
+	[RESTJSONErrorCodes.UnknownBan]: unknownResource('Unknown ban'),
+	[RESTJSONErrorCodes.UnknownSKU]: unknownResource('Unknown SKU'),
+	[RESTJSONErrorCodes.UnknownStoreListing]: unknownResource('Unknown Store Listing'),
+	[RESTJSONErrorCodes.UnknownEntitlement]: unknownResource('Unknown entitlement'),
+	[RESTJSONErrorCodes.UnknownBuild]: unknownResource('Unknown build'),
+	[RESTJSONErrorCodes.UnknownLobby]: unknownResource('Unknown lobby'),
+	[RESTJSONErrorCodes.UnknownBranch]: unknownResource('Unknown branch'),
+	[RESTJSONErrorCodes.UnknownStoreDirectoryLayout]: unknownResource('Unknown store directory layout'),
+	[RESTJSONErrorCodes.UnknownRedistributable]: unknownResource('Unknown redistributable'),
+	[RESTJSONErrorCodes.UnknownGiftCode]: unknownResource('Unknown gift code'),
+	[RESTJSONErrorCodes.UnknownStream]: unknownResource('Unknown stream'),
+	[RESTJSONErrorCodes.UnknownPremiumServerSubscribeCooldown]: unknownResource(
+		'Unknown premium server subscribe cooldown',
+	),
+	[RESTJSONErrorCodes.UnknownGuildTemplate]: unknownResource('Unknown guild template'),
+	[RESTJSONErrorCodes.UnknownDiscoverableServerCategory]: unknownResource('Unknown discoverable server category'),
+	[RESTJSONErrorCodes.UnknownSticker]: unknownResource('Unknown sticker'),
+	[RESTJSONErrorCodes.UnknownStickerPack]: unknownResource('Unknown sticker pack'),
+	[RESTJSONErrorCodes.UnknownInteraction]: unknownResource('Unknown interaction'),
+	[RESTJSONErrorCodes.UnknownApplicationCommand]: unknownResource('Unknown application command'),
+	[RESTJSONErrorCodes.UnknownVoiceState]: unknownResource('Unknown voice state'),
+	[RESTJSONErrorCodes.UnknownApplicationCommandPermissions]: unknownResource(
+		'Unknown application command permissions',
+	),
+	[RESTJSONErrorCodes.UnknownStageInstance]: unknownResource('Unknown Stage Instance'),
+	[RESTJSONErrorCodes.UnknownGuildMemberVerificationForm]: unknownResource('Unknown Guild Member Verification Form'),
+	[RESTJSONErrorCodes.UnknownGuildWelcomeScreen]: unknownResource('Unknown Guild Welcome Screen'),
+	[RESTJSONErrorCodes.UnknownGuildScheduledEvent]: unknownResource('Unknown Guild Scheduled Event'),
+	[RESTJSONErrorCodes.UnknownGuildScheduledEventUser]: unknownResource('Unknown Guild Scheduled Event User'),
+	[RESTJSONErrorCodes.UnknownTag]: unknownResource('Unknown Tag'),
+	[RESTJSONErrorCodes.UnknownSound]: unknownResource('Unknown sound'),
+	[RESTJSONErrorCodes.BotsCannotUseThisEndpoint]: permission('Bots cannot use this endpoint'),
+	[RESTJSONErrorCodes.OnlyBotsCanUseThisEndpoint]: permission('Only bots can use this endpoint'),
+	[RESTJSONErrorCodes.ExplicitContentCannotBeSentToTheDesiredRecipient]: moderation(
+		'Explicit content cannot be sent to the desired recipient(s)',
+	),
+	[RESTJSONErrorCodes.NotAuthorizedToPerformThisActionOnThisApplication]: permission(
+		'You are not authorized to perform this action on this application',
+	),
+	[RESTJSONErrorCodes.ActionCannotBePerformedDueToSlowmodeRateLimit]: rateLimit(
+		'This action cannot be performed due to slowmode rate limit',
+	),
+	[RESTJSONErrorCodes.TheMazeIsntMeantForYou]: permission("The maze isn't meant for you."),
+	[RESTJSONErrorCodes.OnlyTheOwnerOfThisAccountCanPerformThisAction]: permission(
+		'Only the owner of this account can perform this action',
+	),
+	[RESTJSONErrorCodes.AnnouncementEditLimitExceeded]: rateLimit(
+		'This message cannot be edited due to announcement rate limits',
+	),
+	[RESTJSONErrorCodes.UnderMinimumAge]: permission('Under minimum age'),
+	[RESTJSONErrorCodes.ChannelSendRateLimit]: rateLimit('The channel you are writing has hit the write rate limit'),
+	[RESTJSONErrorCodes.ServerSendRateLimit]: rateLimit(
+		'The write action you are performing on the server has hit the write rate limit',
+	),
+	[RESTJSONErrorCodes.StageTopicServerNameServerDescriptionOrChannelNamesContainDisallowedWords]: moderation(
+		'Your Stage topic, server name, server description, or channel names contain words that are not allowed',
+	),
+	[RESTJSONErrorCodes.GuildPremiumSubscriptionLevelTooLow]: permission('Guild premium subscription level too low'),
+	[RESTJSONErrorCodes.MaximumNumberOfGuildsReached]: limitReached('Maximum number of guilds reached (100)'),
+	[RESTJSONErrorCodes.MaximumNumberOfFriendsReached]: limitReached('Maximum number of friends reached (1000)'),
+	[RESTJSONErrorCodes.MaximumNumberOfPinsReachedForTheChannel]: limitReached(
+		'Maximum number of pins reached for the channel (50)',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfRecipientsReached]: limitReached('Maximum number of recipients reached (10)'),
+	[RESTJSONErrorCodes.MaximumNumberOfGuildRolesReached]: limitReached('Maximum number of guild roles reached (250)'),
+	[RESTJSONErrorCodes.MaximumNumberOfWebhooksReached]: limitReached('Maximum number of webhooks reached (15)'),
+	[RESTJSONErrorCodes.MaximumNumberOfEmojisReached]: limitReached('Maximum number of emojis reached'),
+	[RESTJSONErrorCodes.MaximumNumberOfReactionsReached]: limitReached('Maximum number of reactions reached (20)'),
+	[RESTJSONErrorCodes.MaximumNumberOfGroupDMsReached]: limitReached('Maximum number of group DMs reached (10)'),
+	[RESTJSONErrorCodes.MaximumNumberOfGuildChannelsReached]: limitReached(
+		'Maximum number of guild channels reached (500)',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfAttachmentsInAMessageReached]: limitReached(
+		'Maximum number of attachments in a message reached (10)',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfInvitesReached]: limitReached('Maximum number of invites reached (1000)'),
+	[RESTJSONErrorCodes.MaximumNumberOfAnimatedEmojisReached]: limitReached(
+		'Maximum number of animated emojis reached',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfServerMembersReached]: limitReached('Maximum number of server members reached'),
+	[RESTJSONErrorCodes.MaximumNumberOfServerCategoriesReached]: limitReached(
+		'Maximum number of server categories has been reached (5)',
+	),
+	[RESTJSONErrorCodes.GuildAlreadyHasTemplate]: validation('Guild already has a template'),
+	[RESTJSONErrorCodes.MaximumNumberOfApplicationCommandsReached]: limitReached(
+		'Maximum number of application commands reached',
+	),
+	[RESTJSONErrorCodes.MaximumThreadParticipantsReached]: limitReached(
+		'Maximum number of thread participants has been reached (1000)',
+	),
+	[RESTJSONErrorCodes.MaximumDailyApplicationCommandCreatesReached]: limitReached(
+		'Maximum number of daily application command creates has been reached (200)',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfNonGuildMemberBansHasBeenExceeded]: limitReached(
+		'Maximum number of bans for non-guild members have been exceeded',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfBanFetchesHasBeenReached]: limitReached(
+		'Maximum number of bans fetches has been reached',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfUncompletedGuildScheduledEventsReached]: limitReached(
+		'Maximum number of uncompleted guild scheduled events reached (100)',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfStickersReached]: limitReached('Maximum number of stickers reached'),
+	[RESTJSONErrorCodes.MaximumNumberOfPruneRequestsHasBeenReached]: limitReached(
+		'Maximum number of prune requests has been reached. Try again later',
+		true,
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfGuildWidgetSettingsUpdatesHasBeenReached]: limitReached(
+		'Maximum number of guild widget settings updates has been reached. Try again later',
+		true,
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfSoundboardSoundsReached]: limitReached(
+		'Maximum number of soundboard sounds reached',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfEditsToMessagesOlderThanOneHourReached]: limitReached(
+		'Maximum number of edits to messages older than 1 hour reached. Try again later',
+		true,
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfPinnedThreadsInForumHasBeenReached]: limitReached(
+		'Maximum number of pinned threads in a forum channel has been reached',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfTagsInForumHasBeenReached]: limitReached(
+		'Maximum number of tags in a forum channel has been reached',
+	),
+	[RESTJSONErrorCodes.BitrateIsTooHighForChannelOfThisType]: validation(
+		'Bitrate is too high for channel of this type',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfPremiumEmojisReached]: limitReached(
+		'Maximum number of premium emojis reached (25)',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfWebhooksPerGuildReached]: limitReached(
+		'Maximum number of webhooks per guild reached (1000)',
+	),
+	[RESTJSONErrorCodes.MaximumNumberOfChannelPermissionOverwritesReached]: limitReached(
+		'Maximum number of channel permission overwrites reached (1000)',
+	),
+	[RESTJSONErrorCodes.TheChannelsForThisGuildAreTooLarge]: limitReached('The channels for this guild are too large'),
+	[RESTJSONErrorCodes.Unauthorized]: authentication('Unauthorized. Provide a valid token and try again', 401),
+	[RESTJSONErrorCodes.VerifyYourAccount]: authentication(
+		'You need to verify your account in order to perform this action',
+		403,
+	),
+	[RESTJSONErrorCodes.OpeningDirectMessagesTooFast]: rateLimit('You are opening direct messages too fast'),
+	[RESTJSONErrorCodes.SendMessagesHasBeenTemporarilyDisabled]: permission(
+		'Send messages has been temporarily disabled',
+	),
+	[RESTJSONErrorCodes.RequestEntityTooLarge]: validation(
+		'Request entity too large. Try sending something smaller in size',
+		413,
+	),
+	[RESTJSONErrorCodes.FeatureTemporarilyDisabledServerSide]: serviceUnavailable(
+		'This feature has been temporarily disabled server-side',
+		503,
+		true,
+	),
+	[RESTJSONErrorCodes.UserBannedFromThisGuild]: permission('The user is banned from this guild'),
+	[RESTJSONErrorCodes.ConnectionHasBeenRevoked]: authentication('Connection has been revoked', 403),
+	[RESTJSONErrorCodes.OnlyConsumableSKUsCanBeConsumed]: validation('Only consumable SKUs can be consumed'),
+	[RESTJSONErrorCodes.YouCanOnlyDeleteSandboxEntitlements]: validation('You can only delete sandbox entitlements.'),
+	[RESTJSONErrorCodes.TargetUserIsNotConnectedToVoice]: validation('Target user is not connected to voice'),
+	[RESTJSONErrorCodes.ThisMessageWasAlreadyCrossposted]: validation('This message has already been crossposted'),
+	[RESTJSONErrorCodes.ApplicationCommandWithThatNameAlreadyExists]: validation(
+		'An application command with that name already exists',
+	),
+	[RESTJSONErrorCodes.ApplicationInteractionFailedToSend]: serviceUnavailable(
+		'Application interaction failed to send',
+		500,
+		true,
+	),
+	[RESTJSONErrorCodes.CannotSendAMessageInAForumChannel]: validation('Cannot send a message in a forum channel'),
+	[RESTJSONErrorCodes.InteractionHasAlreadyBeenAcknowledged]: validation('Interaction has already been acknowledged'),
+	[RESTJSONErrorCodes.TagNamesMustBeUnique]: validation('Tag names must be unique'),
+	[RESTJSONErrorCodes.ServiceResourceIsBeingRateLimited]: rateLimit('Service resource is being rate limited'),
+	[RESTJSONErrorCodes.ThereAreNoTagsAvailableThatCanBeSetByNonModerators]: validation(
+		'There are no tags available that can be set by non-moderators',
+	),
+	[RESTJSONErrorCodes.TagRequiredToCreateAForumPostInThisChannel]: validation(
+		'A tag is required to create a forum post in this channel',
+	),
+	[RESTJSONErrorCodes.AnEntitlementHasAlreadyBeenGrantedForThisResource]: validation(
+		'An entitlement has already been granted for this resource',
+	),
+	[RESTJSONErrorCodes.ThisInteractionHasHitTheMaximumNumberOfFollowUpMessages]: limitReached(
+		'This interaction has hit the maximum number of follow up messages',
+	),
+	[RESTJSONErrorCodes.CloudflareIsBlockingYourRequest]: serviceUnavailable(
+		'Cloudflare is blocking your request. This can often be resolved by setting a proper User Agent',
+		403,
+		false,
+	),
+	[RESTJSONErrorCodes.MissingAccess]: permission('Missing access'),
+	[RESTJSONErrorCodes.InvalidAccountType]: permission('Invalid account type'),
+	[RESTJSONErrorCodes.CannotExecuteActionOnDMChannel]: validation('Cannot execute action on a DM channel'),
+	[RESTJSONErrorCodes.GuildWidgetDisabled]: validation('Guild widget disabled'),
+	[RESTJSONErrorCodes.CannotEditMessageAuthoredByAnotherUser]: permission(
+		'Cannot edit a message authored by another user',
+	),
+	[RESTJSONErrorCodes.CannotSendAnEmptyMessage]: validation('Cannot send an empty message'),
+	[RESTJSONErrorCodes.CannotSendMessagesToThisUser]: permission('Cannot send messages to this user'),
+	[RESTJSONErrorCodes.CannotSendMessagesInNonTextChannel]: validation('Cannot send messages in a non-text channel'),
+	[RESTJSONErrorCodes.ChannelVerificationLevelTooHighForYouToGainAccess]: permission(
+		'Channel verification level is too high for you to gain access',
+	),
+	[RESTJSONErrorCodes.OAuth2ApplicationDoesNotHaveBot]: validation('OAuth2 application does not have a bot'),
+	[RESTJSONErrorCodes.OAuth2ApplicationLimitReached]: limitReached('OAuth2 application limit reached'),
+	[RESTJSONErrorCodes.InvalidOAuth2State]: validation('Invalid OAuth2 state'),
+	[RESTJSONErrorCodes.MissingPermissions]: permission('You lack permissions to perform that action'),
+	[RESTJSONErrorCodes.InvalidToken]: authentication('Invalid authentication token provided', 401),
+	[RESTJSONErrorCodes.NoteWasTooLong]: validation('Note was too long'),
+	[RESTJSONErrorCodes.ProvidedTooFewOrTooManyMessagesToDelete]: validation(
+		'Provided too few or too many messages to delete. Must provide at least 2 and fewer than 100 messages to delete',
+	),
+	[RESTJSONErrorCodes.InvalidMFALevel]: validation('Invalid MFA Level'),
+	[RESTJSONErrorCodes.MessageCanOnlyBePinnedInTheChannelItWasSentIn]: validation(
+		'A message can only be pinned to the channel it was sent in',
+	),
+	[RESTJSONErrorCodes.InviteCodeInvalidOrTaken]: validation('Invite code was either invalid or taken'),
+	[RESTJSONErrorCodes.CannotExecuteActionOnSystemMessage]: validation('Cannot execute action on a system message'),
+	[RESTJSONErrorCodes.CannotExecuteActionOnThisChannelType]: validation('Cannot execute action on this channel type'),
+	[RESTJSONErrorCodes.InvalidOAuth2AccessToken]: authentication('Invalid OAuth2 access token provided', 401),
+	[RESTJSONErrorCodes.MissingRequiredOAuth2Scope]: authentication('Missing required OAuth2 scope', 403),
+	[RESTJSONErrorCodes.InvalidWebhookToken]: authentication('Invalid webhook token provided', 401),
+	[RESTJSONErrorCodes.InvalidRole]: validation('Invalid role'),
+	[RESTJSONErrorCodes.InvalidRecipients]: validation('Invalid Recipient(s)'),
+	[RESTJSONErrorCodes.OneOfTheMessagesProvidedWasTooOldForBulkDelete]: validation(
+		'A message provided was too old to bulk delete',
+	),
+	[RESTJSONErrorCodes.InvalidFormBodyOrContentType]: validation(
+		'Invalid form body (returned for both application/json and multipart/form-data bodies), or invalid Content-Type provided',
+	),
+	[RESTJSONErrorCodes.InviteAcceptedToGuildWithoutTheBotBeingIn]: validation(
+		"An invite was accepted to a guild the application's bot is not in",
+	),
+	[RESTJSONErrorCodes.InvalidActivityAction]: validation('Invalid Activity Action'),
+	[RESTJSONErrorCodes.InvalidAPIVersion]: validation('Invalid API version provided'),
+	[RESTJSONErrorCodes.FileUploadedExceedsMaximumSize]: validation('File uploaded exceeds the maximum size'),
+	[RESTJSONErrorCodes.InvalidFileUploaded]: validation('Invalid file uploaded'),
+	[RESTJSONErrorCodes.CannotSelfRedeemThisGift]: validation('Cannot self-redeem this gift'),
+	[RESTJSONErrorCodes.InvalidGuild]: validation('Invalid Guild'),
+	[RESTJSONErrorCodes.InvalidSKU]: validation('Invalid SKU'),
+	[RESTJSONErrorCodes.InvalidRequestOrigin]: validation('Invalid request origin'),
+	[RESTJSONErrorCodes.InvalidMessageType]: validation('Invalid message type'),
+	[RESTJSONErrorCodes.PaymentSourceRequiredToRedeemGift]: validation('Payment source required to redeem gift'),
+	[RESTJSONErrorCodes.CannotModifyASystemWebhook]: validation('Cannot modify a system webhook'),
+	[RESTJSONErrorCodes.CannotDeleteChannelRequiredForCommunityGuilds]: validation(
+		'Cannot delete a channel required for Community guilds',
+	),
+	[RESTJSONErrorCodes.CannotEditStickersWithinMessage]: validation('Cannot edit stickers within a message'),
+	[RESTJSONErrorCodes.InvalidStickerSent]: validation('Invalid sticker sent'),
+	[RESTJSONErrorCodes.InvalidActionOnArchivedThread]: validation(
+		'Tried to perform an operation on an archived thread, such as editing a message or adding a user to the thread',
+	),
+	[RESTJSONErrorCodes.InvalidThreadNotificationSettings]: validation('Invalid thread notification settings'),
+	[RESTJSONErrorCodes.ParameterEarlierThanCreation]: validation(
+		'`before` value is earlier than the thread creation date',
+	),
+	[RESTJSONErrorCodes.CommunityServerChannelsMustBeTextChannels]: validation(
+		'Community server channels must be text channels',
+	),
+	[RESTJSONErrorCodes.TheEntityTypeOfTheEventIsDifferentFromTheEntityYouAreTryingToStartTheEventFor]: validation(
+		'The entity type of the event is different from the entity you are trying to start the event for',
+	),
+	[RESTJSONErrorCodes.ServerNotAvailableInYourLocation]: permission('This server is not available in your location'),
+	[RESTJSONErrorCodes.ServerNeedsMonetizationEnabledToPerformThisAction]: permission(
+		'This server needs monetization enabled in order to perform this action',
+	),
+	[RESTJSONErrorCodes.ServerNeedsMoreBoostsToPerformThisAction]: permission(
+		'This server needs more boosts to perform this action',
+	),
+	[RESTJSONErrorCodes.RequestBodyContainsInvalidJSON]: validation('The request body contains invalid JSON.'),
+	[RESTJSONErrorCodes.ProvidedFileIsInvalid]: validation('The provided file is invalid.'),
+	[RESTJSONErrorCodes.ProvidedFileTypeIsInvalid]: validation('The provided file type is invalid.'),
+	[RESTJSONErrorCodes.ProvidedFileDurationExceedsMaximumLength]: validation(
+		'The provided file duration exceeds maximum of 52 seconds.',
+	),
+	[RESTJSONErrorCodes.OwnerCannotBePendingMember]: validation('Owner cannot be pending member'),
+	[RESTJSONErrorCodes.OwnershipCannotBeMovedToABotUser]: validation('Ownership cannot be transferred to a bot user'),
+	[RESTJSONErrorCodes.FailedToResizeAssetBelowTheMinimumSize]: validation(
+		'Failed to resize asset below the maximum size: 262144',
+	),
+	[RESTJSONErrorCodes.CannotMixSubscriptionAndNonSubscriptionRolesForAnEmoji]: validation(
+		'Cannot mix subscription and non subscription roles for an emoji',
+	),
+	[RESTJSONErrorCodes.CannotConvertBetweenPremiumEmojiAndNormalEmoji]: validation(
+		'Cannot convert between premium emoji and normal emoji',
+	),
+	[RESTJSONErrorCodes.UploadedFileNotFound]: validation('Uploaded file not found.'),
+	[RESTJSONErrorCodes.SpecifiedEmojiIsInvalid]: validation('The specified emoji is invalid'),
+	[RESTJSONErrorCodes.VoiceMessagesDoNotSupportAdditionalContent]: validation(
+		'Voice messages do not support additional content.',
+	),
+	[RESTJSONErrorCodes.VoiceMessagesMustHaveASingleAudioAttachment]: validation(
+		'Voice messages must have a single audio attachment.',
+	),
+	[RESTJSONErrorCodes.VoiceMessagesMustHaveSupportingMetadata]: validation(
+		'Voice messages must have supporting metadata.',
+	),
+	[RESTJSONErrorCodes.VoiceMessagesCannotBeEdited]: validation('Voice messages cannot be edited.'),
+	[RESTJSONErrorCodes.CannotDeleteGuildSubscriptionIntegration]: validation(
+		'Cannot delete guild subscription integration',
+	),
+	[RESTJSONErrorCodes.YouCannotSendVoiceMessagesInThisChannel]: permission(
+		'You cannot send voice messages in this channel.',
+	),
+	[RESTJSONErrorCodes.TheUserAccountMustFirstBeVerified]: permission('The user account must first be verified'),
+	[RESTJSONErrorCodes.ProvidedFileDoesNotHaveAValidDuration]: validation(
+		'The provided file does not have a valid duration.',
+	),
+	[RESTJSONErrorCodes.YouDoNotHavePermissionToSendThisSticker]: permission(
+		'You do not have permission to send this sticker.',
+	),
+	[RESTJSONErrorCodes.TwoFactorAuthenticationIsRequired]: authentication(
+		'Two factor is required for this operation',
+		403,
+	),
+	[RESTJSONErrorCodes.NoUsersWithDiscordTagExist]: unknownResource('No users with DiscordTag exist'),
+	[RESTJSONErrorCodes.ReactionWasBlocked]: moderation('Reaction was blocked'),
+	[RESTJSONErrorCodes.UserCannotUseBurstReactions]: validation('User cannot use burst reactions'),
+	[RESTJSONErrorCodes.ApplicationNotYetAvailable]: serviceUnavailable(
+		'Application not yet available. Try again later',
+		503,
+		true,
+	),
+	[RESTJSONErrorCodes.APIResourceOverloaded]: serviceUnavailable(
+		'API resource is currently overloaded. Try again a little later',
+		503,
+		true,
+	),
+	[RESTJSONErrorCodes.TheStageIsAlreadyOpen]: validation('The Stage is already open'),
+	[RESTJSONErrorCodes.CannotReplyWithoutPermissionToReadMessageHistory]: permission(
+		'Cannot reply without permission to read message history',
+	),
+	[RESTJSONErrorCodes.ThreadAlreadyCreatedForMessage]: validation(
+		'A thread has already been created for this message',
+	),
+	[RESTJSONErrorCodes.ThreadLocked]: validation('Thread is locked'),
+	[RESTJSONErrorCodes.MaximumActiveThreads]: limitReached('Maximum number of active threads reached'),
+	[RESTJSONErrorCodes.MaximumActiveAnnouncementThreads]: limitReached(
+		'Maximum number of active announcement threads reached',
+	),
+	[RESTJSONErrorCodes.InvalidJSONForUploadedLottieFile]: validation('Invalid JSON for uploaded Lottie file'),
+	[RESTJSONErrorCodes.UploadedLottiesCannotContainRasterizedImages]: validation(
+		'Uploaded Lotties cannot contain rasterized images such as PNG or JPEG',
+	),
+	[RESTJSONErrorCodes.StickerMaximumFramerateExceeded]: validation('Sticker maximum framerate exceeded'),
+	[RESTJSONErrorCodes.StickerFrameCountExceedsMaximumOf1000Frames]: validation(
+		'Sticker frame count exceeds maximum of 1000 frames',
+	),
+	[RESTJSONErrorCodes.LottieAnimationMaximumDimensionsExceeded]: validation(
+		'Lottie animation maximum dimensions exceeded',
+	),
+	[RESTJSONErrorCodes.StickerFramerateIsTooSmallOrTooLarge]: validation(
+		'Sticker frame rate is either too small or too large',
+	),
+	[RESTJSONErrorCodes.StickerAnimationDurationExceedsMaximumOf5Seconds]: validation(
+		'Sticker animation duration exceeds maximum of 5 seconds',
+	),
+	[RESTJSONErrorCodes.CannotUpdateAFinishedEvent]: validation('Cannot update a finished event'),
+	[RESTJSONErrorCodes.FailedToCreateStageNeededForStageEvent]: validation(
+		'Failed to create stage needed for stage event',
+	),
+	[RESTJSONErrorCodes.MessageWasBlockedByAutomaticModeration]: moderation(
+		'Message was blocked by automatic moderation',
+	),
+	[RESTJSONErrorCodes.TitleWasBlockedByAutomaticModeration]: moderation('Title was blocked by automatic moderation'),
+	[RESTJSONErrorCodes.WebhooksPostedToForumChannelsMustHaveAThreadNameOrThreadId]: validation(
+		'Webhooks posted to forum channels must have a thread_name or thread_id',
+	),
+	[RESTJSONErrorCodes.WebhooksPostedToForumChannelsCannotHaveBothAThreadNameAndThreadId]: validation(
+		'Webhooks posted to forum channels cannot have both a thread_name and thread_id',
+	),
+	[RESTJSONErrorCodes.WebhooksCanOnlyCreateThreadsInForumChannels]: validation(
+		'Webhooks can only create threads in forum channels',
+	),
+	[RESTJSONErrorCodes.WebhookServicesCannotBeUsedInForumChannels]: validation(
+		'Webhook services cannot be used in forum channels',
+	),
+	[RESTJSONErrorCodes.MessageBlockedByHarmfulLinksFilter]: moderation('Message blocked by harmful links filter'),
+	[RESTJSONErrorCodes.CannotEnableOnboardingRequirementsAreNotMet]: validation(
+		'Cannot enable onboarding, requirements are not met',
+	),
+	[RESTJSONErrorCodes.CannotUpdateOnboardingWhileBelowRequirements]: validation(
+		'Cannot update onboarding while below requirements',
+	),
+	[RESTJSONErrorCodes.FailedToBanUsers]: validation('Failed to ban users'),
+	[RESTJSONErrorCodes.PollVotingBlocked]: validation('Poll voting blocked'),
+	[RESTJSONErrorCodes.PollExpired]: validation('Poll expired'),
+	[RESTJSONErrorCodes.InvalidChannelTypeForPollCreation]: validation('Invalid channel type for poll creation'),
+	[RESTJSONErrorCodes.CannotEditAPollMessage]: validation('Cannot edit a poll message'),
+	[RESTJSONErrorCodes.CannotUseAnEmojiIncludedWithThePoll]: validation('Cannot use an emoji included with the poll'),
+	[RESTJSONErrorCodes.CannotExpireANonPollMessage]: validation('Cannot expire a non-poll message'),
+};
+
+// Freeze the object so it can't be changed
+Object.freeze(RESTJSONErrorCodesMetadata);
+
+/**
+ * Gets the information about an error code received from the API
+ *
+ * @param code The `code` of the error response
+ * @returns The information about the error code, or `undefined` if the error code is not known
+ */
+export function getRESTJSONErrorCodeMetadata(code: number): Readonly<RESTJSONErrorCodeMetadata> | undefined {
+	return (RESTJSONErrorCodesMetadata as Partial<Record<number, Readonly<RESTJSONErrorCodeMetadata>>>)[code];
+}
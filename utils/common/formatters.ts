@@ -0,0 +1,178 @@
+import type { Snowflake, TimestampStyles } from '../../globals';
+
+/**
+ * Formats a user id into a user mention, the inverse of `FormattingPatterns.User`
+ *
+ * @param userId The user id to format
+ * @returns The user mention
+ */
+export function userMention<UserId extends Snowflake>(userId: UserId): `<@${UserId}>` {
+	return `<@${userId}>`;
+}
+
+/**
+ * Formats a channel id into a channel mention, the inverse of `FormattingPatterns.Channel`
+ *
+ * @param channelId The channel id to format
+ * @returns The channel mention
+ */
+export function channelMention<ChannelId extends Snowflake>(channelId: ChannelId): `<#${ChannelId}>` {
+	return `<#${channelId}>`;
+}
+
+/**
+ * Formats a role id into a role mention, the inverse of `FormattingPatterns.Role`
+ *
+ * @param roleId The role id to format
+ * @returns The role mention
+ */
+export function roleMention<RoleId extends Snowflake>(roleId: RoleId): `<@&${RoleId}>` {
+	return `<@&${roleId}>`;
+}
+
+/**
+ * Formats an application command name, subcommand group name, subcommand name and id into an application command mention,
+ * the inverse of `FormattingPatterns.SlashCommand`
+ *
+ * @param commandName The application command name to format
+ * @param subcommandGroupName The subcommand group name to format
+ * @param subcommandName The subcommand name to format
+ * @param commandId The application command id to format
+ * @returns The application command mention
+ */
+export function slashCommandMention<
+	CommandName extends string,
+	SubcommandGroupName extends string,
+	SubcommandName extends string,
+	CommandId extends Snowflake,
+>(
+	commandName: CommandName,
+	subcommandGroupName: SubcommandGroupName,
+	subcommandName: SubcommandName,
+	commandId: CommandId,
+): `</${CommandName} ${SubcommandGroupName} ${SubcommandName}:${CommandId}>`;
+
+/**
+ * Formats an application command name, subcommand name and id into an application command mention, the inverse of
+ * `FormattingPatterns.SlashCommand`
+ *
+ * @param commandName The application command name to format
+ * @param subcommandName The subcommand name to format
+ * @param commandId The application command id to format
+ * @returns The application command mention
+ */
+export function slashCommandMention<
+	CommandName extends string,
+	SubcommandName extends string,
+	CommandId extends Snowflake,
+>(
+	commandName: CommandName,
+	subcommandName: SubcommandName,
+	commandId: CommandId,
+): `</${CommandName} ${SubcommandName}:${CommandId}>`;
+
+/**
+ * Formats an application command name and id into an application command mention, the inverse of
+ * `FormattingPatterns.SlashCommand`
+ *
+ * @param commandName The application command name to format
+ * @param commandId The application command id to format
+ * @returns The application command mention
+ */
+export function slashCommandMention<CommandName extends string, CommandId extends Snowflake>(
+	commandName: CommandName,
+	commandId: CommandId,
+): `</${CommandName}:${CommandId}>`;
+
+export function slashCommandMention(...parts: [string, ...string[]]): string {
+	const commandId = parts.pop();
+	return `</${parts.join(' ')}:${commandId}>`;
+}
+
+/**
+ * Formats a custom emoji name and id into an animated emoji, the inverse of `FormattingPatterns.AnimatedEmoji`
+ *
+ * @param emojiName The emoji name to format
+ * @param emojiId The emoji id to format
+ * @param animated Whether the emoji is animated
+ * @returns The formatted emoji
+ */
+export function formatEmoji<EmojiName extends string, EmojiId extends Snowflake>(
+	emojiName: EmojiName,
+	emojiId: EmojiId,
+	animated: true,
+): `<a:${EmojiName}:${EmojiId}>`;
+
+/**
+ * Formats a custom emoji name and id into a static emoji, the inverse of `FormattingPatterns.StaticEmoji`
+ *
+ * @param emojiName The emoji name to format
+ * @param emojiId The emoji id to format
+ * @param animated Whether the emoji is animated
+ * @returns The formatted emoji
+ */
+export function formatEmoji<EmojiName extends string, EmojiId extends Snowflake>(
+	emojiName: EmojiName,
+	emojiId: EmojiId,
+	animated?: false,
+): `<:${EmojiName}:${EmojiId}>`;
+
+/**
+ * Formats a custom emoji name and id into an emoji, the inverse of `FormattingPatterns.Emoji`
+ *
+ * @param emojiName The emoji name to format
+ * @param emojiId The emoji id to format
+ * @param animated Whether the emoji is animated
+ * @returns The formatted emoji
+ */
+export function formatEmoji<EmojiName extends string, EmojiId extends Snowflake>(
+	emojiName: EmojiName,
+	emojiId: EmojiId,
+	animated?: boolean,
+): `<:${EmojiName}:${EmojiId}>` | `<a:${EmojiName}:${EmojiId}>`;
+
+export function formatEmoji(emojiName: string, emojiId: Snowflake, animated = false): string {
+	return `<${animated ? 'a' : ''}:${emojiName}:${emojiId}>`;
+}
+
+/**
+ * Formats a date into a default styled timestamp, the inverse of `FormattingPatterns.DefaultStyledTimestamp`
+ *
+ * @param date The date, or the number of seconds since the Unix epoch, to format
+ * @returns The formatted timestamp
+ * @throws {RangeError} If the date is invalid or the number of seconds is not finite
+ */
+export function formatTimestamp(date: Date | number): `<t:${bigint}>`;
+
+/**
+ * Formats a date into a custom styled timestamp, the inverse of `FormattingPatterns.StyledTimestamp`
+ *
+ * @param date The date, or the number of seconds since the Unix epoch, to format
+ * @param style The style to use
+ * @returns The formatted timestamp
+ * @throws {RangeError} If the date is invalid or the number of seconds is not finite
+ */
+export function formatTimestamp<Style extends TimestampStyles>(
+	date: Date | number,
+	style: Style,
+): `<t:${bigint}:${Style}>`;
+
+export function formatTimestamp(date: Date | number, style?: TimestampStyles): string {
+	const seconds = typeof date === 'number' ? Math.floor(date) : Math.floor(date.getTime() / 1_000);
+
+	if (!Number.isFinite(seconds)) {
+		throw new RangeError(`Cannot format ${seconds} into a timestamp, it must be a valid date or a finite number`);
+	}
+
+	return style ? `<t:${seconds}:${style}>` : `<t:${seconds}>`;
+}
+
+/**
+ * Formats a role id into a linked role mention, the inverse of `FormattingPatterns.LinkedRole`
+ *
+ * @param roleId The role id to format
+ * @returns The linked role mention
+ */
+export function linkedRoleMention<RoleId extends Snowflake>(roleId: RoleId): `<id:linked-roles:${RoleId}>` {
+	return `<id:linked-roles:${roleId}>`;
+}
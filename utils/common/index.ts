@@ -0,0 +1,10 @@
+// This file exports all the utility functions that are not tied to a specific API version
+
+export * from './errorCodes';
+export * from './errors';
+export * from './formatters';
+export * from './headers';
+export * from './locales';
+export * from './rateLimits';
+export * from './snowflake';
+export * from './tokenizer';
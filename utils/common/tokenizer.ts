@@ -0,0 +1,259 @@
+import type { Snowflake, TimestampStyles } from '../../globals';
+import { FormattingPatterns } from '../../globals';
+
+interface BaseToken<Type extends string> {
+	/**
+	 * The type of the token
+	 */
+	type: Type;
+	/**
+	 * The raw text of the token, as it appears in the content
+	 */
+	raw: string;
+	/**
+	 * The index of the first character of the token in the content
+	 */
+	start: number;
+	/**
+	 * The index after the last character of the token in the content
+	 */
+	end: number;
+}
+
+/**
+ * Plain text between two formatted tokens
+ */
+export interface MessageContentTextToken extends BaseToken<'text'> {}
+
+/**
+ * A user mention, such as `<@123456789012345678>`
+ */
+export interface MessageContentUserToken extends BaseToken<'user'> {
+	/**
+	 * The id of the mentioned user
+	 */
+	id: Snowflake;
+}
+
+/**
+ * A role mention, such as `<@&123456789012345678>`
+ */
+export interface MessageContentRoleToken extends BaseToken<'role'> {
+	/**
+	 * The id of the mentioned role
+	 */
+	id: Snowflake;
+}
+
+/**
+ * A channel mention, such as `<#123456789012345678>`
+ */
+export interface MessageContentChannelToken extends BaseToken<'channel'> {
+	/**
+	 * The id of the mentioned channel
+	 */
+	id: Snowflake;
+}
+
+/**
+ * A custom emoji, such as `<:name:123456789012345678>` or `<a:name:123456789012345678>`
+ */
+export interface MessageContentEmojiToken extends BaseToken<'emoji'> {
+	/**
+	 * The id of the emoji
+	 */
+	id: Snowflake;
+	/**
+	 * The name of the emoji
+	 */
+	name: string;
+	/**
+	 * Whether the emoji is animated
+	 */
+	animated: boolean;
+}
+
+/**
+ * A timestamp, such as `<t:1618953630>` or `<t:1618953630:R>`
+ */
+export interface MessageContentTimestampToken extends BaseToken<'timestamp'> {
+	/**
+	 * The number of seconds since the Unix epoch
+	 */
+	timestamp: number;
+	/**
+	 * The style of the timestamp, if any
+	 */
+	style?: TimestampStyles;
+}
+
+/**
+ * An application command mention, such as `</name subcommand:123456789012345678>`
+ */
+export interface MessageContentSlashCommandToken extends BaseToken<'slashCommand'> {
+	/**
+	 * The id of the mentioned application command
+	 */
+	id: Snowflake;
+	/**
+	 * The full name of the mentioned command, including its subcommand group and subcommand names
+	 */
+	fullName: string;
+	/**
+	 * The name of the mentioned command
+	 */
+	name: string;
+	/**
+	 * The name of the mentioned subcommand group, or subcommand if there is no subcommand group
+	 */
+	subcommandOrGroup?: string;
+	/**
+	 * The name of the mentioned subcommand, when a subcommand group is mentioned
+	 */
+	subcommand?: string;
+}
+
+/**
+ * A guild navigation mention, such as `<id:customize>`
+ */
+export interface MessageContentGuildNavigationToken extends BaseToken<'guildNavigation'> {
+	/**
+	 * The tab that is mentioned
+	 */
+	navigationType: 'browse' | 'customize' | 'guide' | 'linked-roles';
+}
+
+/**
+ * A linked role mention, such as `<id:linked-roles:123456789012345678>`
+ */
+export interface MessageContentLinkedRoleToken extends BaseToken<'linkedRole'> {
+	/**
+	 * The id of the mentioned linked role
+	 */
+	id: Snowflake;
+}
+
+export type MessageContentToken =
+	| MessageContentChannelToken
+	| MessageContentEmojiToken
+	| MessageContentGuildNavigationToken
+	| MessageContentLinkedRoleToken
+	| MessageContentRoleToken
+	| MessageContentSlashCommandToken
+	| MessageContentTextToken
+	| MessageContentTimestampToken
+	| MessageContentUserToken;
+
+type FormattedToken = Exclude<MessageContentToken, MessageContentTextToken>;
+
+type TokenMatcher = [
+	pattern: RegExp,
+	toToken: (groups: Record<string, string | undefined>, base: Omit<BaseToken<never>, 'type'>) => FormattedToken,
+];
+
+/**
+ * Creates a sticky copy of a pattern, so that it only matches at the exact index it is run at
+ */
+function sticky(pattern: RegExp): RegExp {
+	return new RegExp(pattern.source, `${pattern.flags}y`);
+}
+
+const TokenMatchers: readonly TokenMatcher[] = [
+	[
+		sticky(FormattingPatterns.UserWithOptionalNickname),
+		(groups, base) => ({ ...base, type: 'user', id: groups.id! }),
+	],
+	[sticky(FormattingPatterns.Role), (groups, base) => ({ ...base, type: 'role', id: groups.id! })],
+	[sticky(FormattingPatterns.Channel), (groups, base) => ({ ...base, type: 'channel', id: groups.id! })],
+	[
+		sticky(FormattingPatterns.Emoji),
+		(groups, base) => ({
+			...base,
+			type: 'emoji',
+			id: groups.id!,
+			name: groups.name!,
+			animated: groups.animated === 'a',
+		}),
+	],
+	[
+		sticky(FormattingPatterns.Timestamp),
+		(groups, base) => ({
+			...base,
+			type: 'timestamp',
+			timestamp: Number(groups.timestamp),
+			...(groups.style ? { style: groups.style as TimestampStyles } : {}),
+		}),
+	],
+	[
+		sticky(FormattingPatterns.SlashCommand),
+		(groups, base) => ({
+			...base,
+			type: 'slashCommand',
+			id: groups.id!,
+			fullName: groups.fullName!,
+			name: groups.name!,
+			...(groups.subcommandOrGroup ? { subcommandOrGroup: groups.subcommandOrGroup } : {}),
+			...(groups.subcommand ? { subcommand: groups.subcommand } : {}),
+		}),
+	],
+	[sticky(FormattingPatterns.LinkedRole), (groups, base) => ({ ...base, type: 'linkedRole', id: groups.id! })],
+	[
+		sticky(FormattingPatterns.GuildNavigation),
+		(groups, base) => ({
+			...base,
+			type: 'guildNavigation',
+			navigationType: groups.type as MessageContentGuildNavigationToken['navigationType'],
+		}),
+	],
+];
+
+function matchToken(content: string, index: number): FormattedToken | null {
+	for (const [pattern, toToken] of TokenMatchers) {
+		pattern.lastIndex = index;
+		const match = pattern.exec(content);
+
+		if (match) {
+			return toToken(match.groups ?? {}, { raw: match[0], start: index, end: index + match[0].length });
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Splits message content into an ordered list of tokens, separating mentions, custom emojis, timestamps and other
+ * formatted tokens from the plain text around them
+ *
+ * Concatenating the `raw` property of every token results in the original content
+ *
+ * See https://discord.com/developers/docs/reference#message-formatting
+ *
+ * @param content The content to tokenize, for instance the `content` of a message
+ * @returns The tokens found in the content
+ */
+export function tokenizeMessageContent(content: string): MessageContentToken[] {
+	const tokens: MessageContentToken[] = [];
+	let textStart = 0;
+	let index = content.indexOf('<');
+
+	while (index !== -1) {
+		const token = matchToken(content, index);
+
+		if (token) {
+			if (textStart < index) {
+				tokens.push({ type: 'text', raw: content.slice(textStart, index), start: textStart, end: index });
+			}
+
+			tokens.push(token);
+			textStart = token.end;
+		}
+
+		index = content.indexOf('<', token ? token.end : index + 1);
+	}
+
+	if (textStart < content.length) {
+		tokens.push({ type: 'text', raw: content.slice(textStart), start: textStart, end: content.length });
+	}
+
+	return tokens;
+}
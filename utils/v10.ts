@@ -2,9 +2,6 @@ import type {
 	APIApplicationCommandDMInteraction,
 	APIApplicationCommandGuildInteraction,
 	APIApplicationCommandInteraction,
-	APIButtonComponent,
-	APIButtonComponentWithCustomId,
-	APIButtonComponentWithURL,
 	APIChatInputApplicationCommandInteraction,
 	APIContextMenuInteraction,
 	APIDMInteraction,
@@ -16,7 +13,24 @@ import type {
 	APIMessageComponentInteraction,
 	APIMessageComponentSelectMenuInteraction,
 } from '../payloads/v10/index';
-import { ApplicationCommandType, ButtonStyle, ComponentType, InteractionType } from '../payloads/v10/index';
+import { ApplicationCommandType, ComponentType, InteractionType } from '../payloads/v10/index';
+
+export * from './common/index';
+export * from './v10/applicationCommands';
+export * from './v10/buttons';
+export * from './v10/cdn';
+export * from './v10/closeCodes';
+export * from './v10/commandOptions';
+export * from './v10/components';
+export * from './v10/embeds';
+export * from './v10/formData';
+export * from './v10/interactionResponses';
+export * from './v10/intents';
+export * from './v10/permissions';
+export * from './v10/restRoutes';
+export * from './v10/routes';
+export * from './v10/verification';
+export * from './v10/webhookEvents';
 
 // Interactions
 
@@ -92,28 +106,6 @@ export function isMessageComponentGuildInteraction(
 	return isGuildInteraction(interaction);
 }
 
-// Buttons
-
-/**
- * A type-guard check for buttons that have a `url` attached to them.
- *
- * @param component The button to check against
- * @returns A boolean that indicates if the button has a `url` attached to it
- */
-export function isLinkButton(component: APIButtonComponent): component is APIButtonComponentWithURL {
-	return component.style === ButtonStyle.Link;
-}
-
-/**
- * A type-guard check for buttons that have a `custom_id` attached to them.
- *
- * @param component The button to check against
- * @returns A boolean that indicates if the button has a `custom_id` attached to it
- */
-export function isInteractionButton(component: APIButtonComponent): component is APIButtonComponentWithCustomId {
-	return ![ButtonStyle.Link, ButtonStyle.Premium].includes(component.style);
-}
-
 // Message Components
 
 /**
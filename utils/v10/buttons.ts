@@ -0,0 +1,26 @@
+import type {
+	APIButtonComponent,
+	APIButtonComponentWithCustomId,
+	APIButtonComponentWithURL,
+} from '../../payloads/v10/index';
+import { ButtonStyle } from '../../payloads/v10/index';
+
+/**
+ * A type-guard check for buttons that have a `url` attached to them.
+ *
+ * @param component The button to check against
+ * @returns A boolean that indicates if the button has a `url` attached to it
+ */
+export function isLinkButton(component: APIButtonComponent): component is APIButtonComponentWithURL {
+	return component.style === ButtonStyle.Link;
+}
+
+/**
+ * A type-guard check for buttons that have a `custom_id` attached to them.
+ *
+ * @param component The button to check against
+ * @returns A boolean that indicates if the button has a `custom_id` attached to it
+ */
+export function isInteractionButton(component: APIButtonComponent): component is APIButtonComponentWithCustomId {
+	return ![ButtonStyle.Link, ButtonStyle.Premium].includes(component.style);
+}
@@ -0,0 +1,177 @@
+import type {
+	AchievementIconFormat,
+	ApplicationAssetFormat,
+	ApplicationCoverFormat,
+	ApplicationIconFormat,
+	CDNQuery,
+	EmojiFormat,
+	GuildBannerFormat,
+	GuildDiscoverySplashFormat,
+	GuildIconFormat,
+	GuildMemberAvatarFormat,
+	GuildMemberBannerFormat,
+	GuildScheduledEventCoverFormat,
+	GuildSplashFormat,
+	RoleIconFormat,
+	StickerFormat,
+	StickerPackBannerFormat,
+	StorePageAssetFormat,
+	TeamIconFormat,
+	UserAvatarFormat,
+	UserBannerFormat,
+} from '../../rest/v10/index';
+import { CDNRoutes, ImageFormat, RouteBases } from '../../rest/v10/index';
+
+const StaticFormats = [ImageFormat.PNG, ImageFormat.JPEG, ImageFormat.WebP] as const;
+const AnimatableFormats = [...StaticFormats, ImageFormat.GIF] as const;
+
+/**
+ * The image formats supported by each {@link CDNRoutes} route that takes a format, as a runtime counterpart to the
+ * `*Format` types (for instance `UserAvatarFormat`)
+ */
+export const CDNRouteFormats = {
+	emoji: AnimatableFormats satisfies readonly EmojiFormat[],
+	guildIcon: AnimatableFormats satisfies readonly GuildIconFormat[],
+	guildSplash: StaticFormats satisfies readonly GuildSplashFormat[],
+	guildDiscoverySplash: StaticFormats satisfies readonly GuildDiscoverySplashFormat[],
+	guildBanner: AnimatableFormats satisfies readonly GuildBannerFormat[],
+	userBanner: AnimatableFormats satisfies readonly UserBannerFormat[],
+	userAvatar: AnimatableFormats satisfies readonly UserAvatarFormat[],
+	guildMemberAvatar: AnimatableFormats satisfies readonly GuildMemberAvatarFormat[],
+	applicationIcon: StaticFormats satisfies readonly ApplicationIconFormat[],
+	applicationCover: StaticFormats satisfies readonly ApplicationCoverFormat[],
+	applicationAsset: StaticFormats satisfies readonly ApplicationAssetFormat[],
+	achievementIcon: StaticFormats satisfies readonly AchievementIconFormat[],
+	stickerPackBanner: StaticFormats satisfies readonly StickerPackBannerFormat[],
+	storePageAsset: StaticFormats satisfies readonly StorePageAssetFormat[],
+	teamIcon: StaticFormats satisfies readonly TeamIconFormat[],
+	sticker: [ImageFormat.PNG, ImageFormat.Lottie, ImageFormat.GIF] as const satisfies readonly StickerFormat[],
+	roleIcon: StaticFormats satisfies readonly RoleIconFormat[],
+	guildScheduledEventCover: StaticFormats satisfies readonly GuildScheduledEventCoverFormat[],
+	guildMemberBanner: AnimatableFormats satisfies readonly GuildMemberBannerFormat[],
+} as const;
+
+// Freeze the object and its entries so they can't be changed
+for (const formats of Object.values(CDNRouteFormats)) Object.freeze(formats);
+Object.freeze(CDNRouteFormats);
+
+/**
+ * Routes of {@link CDNRoutes} whose last argument before the format is an image hash, which begins with `a_` when the
+ * image is animated
+ */
+const AnimatedHashRoutes = new Set<keyof typeof CDNRoutes>([
+	'guildIcon',
+	'guildBanner',
+	'userBanner',
+	'userAvatar',
+	'guildMemberAvatar',
+	'guildMemberBanner',
+]);
+
+export type CDNFormattedRoute = keyof typeof CDNRouteFormats;
+
+export type CDNRouteFormat<Route extends CDNFormattedRoute> = (typeof CDNRouteFormats)[Route][number];
+
+export interface CDNURLOptions<Format extends ImageFormat = ImageFormat> extends CDNQuery {
+	/**
+	 * The format of the image
+	 *
+	 * Defaults to GIF for animated images on routes that support it, and PNG otherwise
+	 */
+	format?: Format;
+	/**
+	 * Whether the image is animated, for routes where this cannot be inferred from the image hash (for instance emojis)
+	 */
+	animated?: boolean;
+	/**
+	 * The base to build the URL against
+	 *
+	 * @default 'cdn'
+	 */
+	base?: 'cdn' | 'media';
+}
+
+type CDNRouteParameters<Route extends keyof typeof CDNRoutes> = Parameters<(typeof CDNRoutes)[Route]>;
+
+type WithoutFormat<Parameters extends unknown[]> = Required<Parameters> extends [...infer Rest, unknown] ? Rest : never;
+
+/**
+ * The arguments accepted by {@link buildCDNURL} for a route: the route's arguments without the format, optionally
+ * followed by the URL options
+ */
+export type CDNURLArguments<Route extends keyof typeof CDNRoutes> =
+	Route extends CDNFormattedRoute ?
+		[...WithoutFormat<CDNRouteParameters<Route>>, options?: CDNURLOptions<CDNRouteFormat<Route>>]
+	:	[...CDNRouteParameters<Route>, options?: Omit<CDNURLOptions<never>, 'animated' | 'format'>];
+
+/**
+ * Checks whether a size is valid for images returned by the CDN
+ *
+ * @param size The size to check
+ * @returns A boolean that indicates if the size is a power of two between 16 and 4096
+ */
+export function isValidCDNImageSize(size: number): boolean {
+	return Number.isInteger(size) && size >= 16 && size <= 4_096 && (size & (size - 1)) === 0;
+}
+
+/**
+ * Builds a fully-qualified URL for a {@link CDNRoutes} route
+ *
+ * When no format is given, GIF is picked for animated hashes (beginning with `a_`) on routes that support it, and PNG
+ * is used otherwise
+ *
+ * @example
+ * ```ts
+ * buildCDNURL('userAvatar', user.id, user.avatar, { size: 256 });
+ * // => 'https://cdn.discordapp.com/avatars/{user.id}/a_{hash}.gif?size=256'
+ * ```
+ * @param route The route to build the URL for
+ * @param args The arguments of the route, without its format, optionally followed by the URL options
+ * @returns The URL of the asset
+ */
+export function buildCDNURL<Route extends keyof typeof CDNRoutes>(
+	route: Route,
+	...args: CDNURLArguments<Route>
+): string {
+	const routeArguments = [...args] as (CDNURLOptions | number | string)[];
+	const options = (
+		typeof routeArguments[routeArguments.length - 1] === 'object' ?
+			routeArguments.pop()
+		:	{}) as CDNURLOptions;
+
+	if (options.size !== undefined && !isValidCDNImageSize(options.size)) {
+		throw new RangeError(`Invalid CDN image size ${options.size}, it must be a power of two between 16 and 4096`);
+	}
+
+	const routeFunction = CDNRoutes[route] as (...routeArgs: (number | string)[]) => string;
+	let path: string;
+
+	if (route in CDNRouteFormats) {
+		const formats: readonly ImageFormat[] = CDNRouteFormats[route as CDNFormattedRoute];
+		const hash = routeArguments[routeArguments.length - 1];
+		const animated =
+			options.animated ?? (AnimatedHashRoutes.has(route) && typeof hash === 'string' && hash.startsWith('a_'));
+		const format =
+			options.format ?? (animated && formats.includes(ImageFormat.GIF) ? ImageFormat.GIF : ImageFormat.PNG);
+
+		if (!formats.includes(format)) {
+			throw new RangeError(
+				`Invalid format ${format} for CDN route ${route}, expected one of ${formats.join(', ')}`,
+			);
+		}
+
+		if (format === ImageFormat.GIF && AnimatedHashRoutes.has(route) && !animated) {
+			throw new RangeError(
+				`Cannot use the GIF format for CDN route ${route}, as the hash does not begin with a_`,
+			);
+		}
+
+		path = routeFunction(...(routeArguments as (number | string)[]), format);
+	} else {
+		path = routeFunction(...(routeArguments as (number | string)[]));
+	}
+
+	const query = options.size === undefined ? '' : `?size=${options.size}`;
+
+	return `${RouteBases[options.base ?? 'cdn']}${path}${query}`;
+}
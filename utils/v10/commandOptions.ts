@@ -0,0 +1,406 @@
+import type {
+	APIApplicationCommandAutocompleteInteraction,
+	APIApplicationCommandInteractionDataBasicOption,
+	APIAttachment,
+	APIChatInputApplicationCommandInteraction,
+	APIInteractionDataResolved,
+	APIInteractionDataResolvedChannel,
+	APIInteractionDataResolvedGuildMember,
+	APIRole,
+	APIUser,
+	ChannelType,
+} from '../../payloads/v10/index';
+import { ApplicationCommandOptionType } from '../../payloads/v10/index';
+
+/**
+ * The option types that hold a value, as opposed to subcommands and subcommand groups
+ */
+export type ChatInputBasicOptionType = APIApplicationCommandInteractionDataBasicOption['type'];
+
+/**
+ * The data from {@link APIInteractionDataResolved} joined with each option type, or `null` when Discord did not include
+ * it (for instance for the unfocused options of an autocomplete interaction)
+ */
+export interface ResolvedChatInputOptionData {
+	[ApplicationCommandOptionType.String]: {};
+	[ApplicationCommandOptionType.Integer]: {};
+	[ApplicationCommandOptionType.Boolean]: {};
+	[ApplicationCommandOptionType.User]: {
+		user: APIUser | null;
+		member: APIInteractionDataResolvedGuildMember | null;
+	};
+	[ApplicationCommandOptionType.Channel]: {
+		channel: APIInteractionDataResolvedChannel | null;
+	};
+	[ApplicationCommandOptionType.Role]: {
+		role: APIRole | null;
+	};
+	[ApplicationCommandOptionType.Mentionable]: {
+		user: APIUser | null;
+		member: APIInteractionDataResolvedGuildMember | null;
+		role: APIRole | null;
+	};
+	[ApplicationCommandOptionType.Number]: {};
+	[ApplicationCommandOptionType.Attachment]: {
+		attachment: APIAttachment | null;
+	};
+}
+
+/**
+ * An option of a chat input command joined with its resolved data
+ */
+export type ResolvedChatInputOption<Type extends ChatInputBasicOptionType = ChatInputBasicOptionType> =
+	Type extends ChatInputBasicOptionType ?
+		Extract<APIApplicationCommandInteractionDataBasicOption, { type: Type }> & ResolvedChatInputOptionData[Type]
+	:	never;
+
+/**
+ * The options of a chat input command interaction, along with the subcommand they were given to
+ */
+export interface ResolvedChatInputOptions {
+	/**
+	 * The name of the subcommand group that was used, or `null` if the command has none
+	 */
+	subcommandGroup: string | null;
+	/**
+	 * The name of the subcommand that was used, or `null` if the command has none
+	 */
+	subcommand: string | null;
+	/**
+	 * The options given to the command (or to its subcommand), joined with their resolved data
+	 */
+	options: ResolvedChatInputOption[];
+	/**
+	 * Gets an option by its name
+	 *
+	 * @param name The name of the option
+	 * @param type The type the option is expected to have
+	 * @returns The option, or `null` if it was not given or does not have the expected type
+	 */
+	get<Type extends ChatInputBasicOptionType = ChatInputBasicOptionType>(
+		name: string,
+		type?: Type,
+	): ResolvedChatInputOption<Type> | null;
+	/**
+	 * Gets the option the user is currently typing in, for autocomplete interactions
+	 *
+	 * @returns The focused option, or `null` if there is none
+	 */
+	getFocused(): ResolvedChatInputOption<
+		ApplicationCommandOptionType.Integer | ApplicationCommandOptionType.Number | ApplicationCommandOptionType.String
+	> | null;
+}
+
+function resolveOption(
+	option: APIApplicationCommandInteractionDataBasicOption,
+	resolved: APIInteractionDataResolved,
+): ResolvedChatInputOption {
+	switch (option.type) {
+		case ApplicationCommandOptionType.User:
+			return {
+				...option,
+				user: resolved.users?.[option.value] ?? null,
+				member: resolved.members?.[option.value] ?? null,
+			};
+		case ApplicationCommandOptionType.Channel:
+			return { ...option, channel: resolved.channels?.[option.value] ?? null };
+		case ApplicationCommandOptionType.Role:
+			return { ...option, role: resolved.roles?.[option.value] ?? null };
+		case ApplicationCommandOptionType.Mentionable:
+			return {
+				...option,
+				user: resolved.users?.[option.value] ?? null,
+				member: resolved.members?.[option.value] ?? null,
+				role: resolved.roles?.[option.value] ?? null,
+			};
+		case ApplicationCommandOptionType.Attachment:
+			return { ...option, attachment: resolved.attachments?.[option.value] ?? null };
+		default:
+			return option;
+	}
+}
+
+/**
+ * Walks the options of a chat input command interaction to find the subcommand that was used, and joins every option
+ * with its entry in the `resolved` data of the interaction
+ *
+ * @example
+ * ```ts
+ * const { subcommand, get } = resolveChatInputOptions(interaction);
+ * const target = get('target', ApplicationCommandOptionType.User);
+ * // => { name: 'target', type: 6, value: '...', user: { ... }, member: { ... } }
+ * ```
+ * @param interaction The chat input command or autocomplete interaction
+ */
+export function resolveChatInputOptions(
+	interaction: APIApplicationCommandAutocompleteInteraction | APIChatInputApplicationCommandInteraction,
+): ResolvedChatInputOptions {
+	let subcommandGroup: string | null = null;
+	let subcommand: string | null = null;
+	let options = interaction.data.options ?? [];
+
+	const [first] = options;
+
+	if (first?.type === ApplicationCommandOptionType.SubcommandGroup) {
+		subcommandGroup = first.name;
+		options = first.options;
+	}
+
+	const [second] = options;
+
+	if (second?.type === ApplicationCommandOptionType.Subcommand) {
+		subcommand = second.name;
+		options = second.options ?? [];
+	}
+
+	const resolved = interaction.data.resolved ?? {};
+	const resolvedOptions = (options as APIApplicationCommandInteractionDataBasicOption[]).map((option) =>
+		resolveOption(option, resolved),
+	);
+
+	return {
+		subcommandGroup,
+		subcommand,
+		options: resolvedOptions,
+		get<Type extends ChatInputBasicOptionType = ChatInputBasicOptionType>(name: string, type?: Type) {
+			const option = resolvedOptions.find((option) => option.name === name);
+			if (!option || (type !== undefined && option.type !== type)) return null;
+
+			return option as ResolvedChatInputOption<Type>;
+		},
+		getFocused() {
+			const option = resolvedOptions.find((option) => 'focused' in option && option.focused);
+
+			return (option ?? null) as ResolvedChatInputOption<
+				| ApplicationCommandOptionType.Integer
+				| ApplicationCommandOptionType.Number
+				| ApplicationCommandOptionType.String
+			> | null;
+		},
+	};
+}
+
+/**
+ * The fields of an application command option needed to infer the options received for it, loose enough to accept
+ * `as const` definitions
+ */
+export interface ChatInputOptionDefinition {
+	readonly type: ApplicationCommandOptionType;
+	readonly name: string;
+	readonly required?: boolean;
+	readonly choices?: readonly { readonly value: number | string }[];
+	readonly channel_types?: readonly ChannelType[];
+	readonly options?: readonly ChatInputOptionDefinition[];
+}
+
+/**
+ * The fields of a chat input command needed to infer the options received for it, loose enough to accept `as const`
+ * definitions
+ */
+export interface ChatInputCommandDefinition {
+	readonly name: string;
+	readonly options?: readonly ChatInputOptionDefinition[];
+}
+
+type InferredOptionData<Option extends ChatInputOptionDefinition> =
+	Option extends (
+		{
+			readonly channel_types: readonly (infer Type extends ChannelType)[];
+		}
+	) ?
+		{ channel: (APIInteractionDataResolvedChannel & { type: Type }) | null }
+	: Option extends { readonly choices: readonly { readonly value: infer Value }[] } ?
+		[Value] extends [never] ?
+			unknown
+		:	{ value: Value }
+	:	unknown;
+
+/**
+ * The option received for an option definition, with its value narrowed to its `choices` and its channel narrowed to
+ * its `channel_types`
+ */
+export type InferredChatInputOption<Option extends ChatInputOptionDefinition> =
+	Option extends (
+		{
+			readonly type: infer Type extends ChatInputBasicOptionType;
+		}
+	) ?
+		InferredOptionData<Option> & ResolvedChatInputOption<Type>
+	:	never;
+
+/**
+ * The options received for a list of option definitions, keyed by their name
+ */
+export type InferredChatInputOptionMap<Option extends ChatInputOptionDefinition> = {
+	[Optional in Option as Optional extends { readonly required: true } ? never
+	:	Optional['name']]?: InferredChatInputOption<Optional>;
+} & {
+	[Required in Option as Required extends { readonly required: true } ? Required['name']
+	:	never]: InferredChatInputOption<Required>;
+};
+
+type InferredSubcommandOptions<Option extends ChatInputOptionDefinition, Group extends string | null> =
+	Option extends (
+		{
+			readonly type: ApplicationCommandOptionType.SubcommandGroup;
+			readonly options: readonly (infer Subcommand extends ChatInputOptionDefinition)[];
+		}
+	) ?
+		InferredSubcommandOptions<Subcommand, Option['name']>
+	: Option extends { readonly type: ApplicationCommandOptionType.Subcommand } ?
+		{
+			subcommandGroup: Group;
+			subcommand: Option['name'];
+			options: InferredChatInputOptionMap<
+				Option extends { readonly options: readonly (infer Basic extends ChatInputOptionDefinition)[] } ? Basic
+				:	never
+			>;
+		}
+	:	never;
+
+/**
+ * The options received for a chat input command definition, as a union of every subcommand path the command has
+ *
+ * @example
+ * ```ts
+ * const command = {
+ * 	name: 'ban',
+ * 	description: 'Bans a user',
+ * 	options: [
+ * 		{ type: ApplicationCommandOptionType.User, name: 'target', description: 'The user to ban', required: true },
+ * 		{ type: ApplicationCommandOptionType.String, name: 'reason', description: 'The reason', choices: [...] },
+ * 	],
+ * } as const;
+ *
+ * type Options = InferredChatInputOptions<typeof command>;
+ * // => { subcommandGroup: null; subcommand: null; options: { target: ...; reason?: ... } }
+ * ```
+ */
+export type InferredChatInputOptions<Command extends ChatInputCommandDefinition> =
+	Command extends (
+		{
+			readonly options: readonly (infer Option extends ChatInputOptionDefinition)[];
+		}
+	) ?
+		Extract<
+			Option['type'],
+			ApplicationCommandOptionType.Subcommand | ApplicationCommandOptionType.SubcommandGroup
+		> extends never ?
+			{ subcommandGroup: null; subcommand: null; options: InferredChatInputOptionMap<Option> }
+		:	InferredSubcommandOptions<Option, null>
+	:	{ subcommandGroup: null; subcommand: null; options: {} };
+
+function findSubcommandDefinition(
+	options: readonly ChatInputOptionDefinition[] | undefined,
+	type: ApplicationCommandOptionType.Subcommand | ApplicationCommandOptionType.SubcommandGroup,
+	name: string,
+) {
+	return options?.find((option) => option.type === type && option.name === name);
+}
+
+function hasSubcommands(options: readonly ChatInputOptionDefinition[] | undefined) {
+	return (
+		options?.some(
+			(option) =>
+				option.type === ApplicationCommandOptionType.Subcommand ||
+				option.type === ApplicationCommandOptionType.SubcommandGroup,
+		) ?? false
+	);
+}
+
+function validateOptionsAgainstDefinitions(
+	path: string,
+	options: readonly ResolvedChatInputOption[],
+	definitions: readonly ChatInputOptionDefinition[],
+) {
+	for (const option of options) {
+		const definition = definitions.find((definition) => definition.name === option.name);
+
+		if (!definition) {
+			throw new RangeError(`The "${option.name}" option is not part of the definition of "${path}"`);
+		}
+
+		if (option.type !== definition.type) {
+			throw new RangeError(
+				`Expected the "${option.name}" option of "${path}" to be of type ${ApplicationCommandOptionType[definition.type]}, got ${ApplicationCommandOptionType[option.type]}`,
+			);
+		}
+
+		if (definition.choices && !definition.choices.some((choice) => choice.value === option.value)) {
+			throw new RangeError(`The value of the "${option.name}" option of "${path}" is not one of its choices`);
+		}
+
+		if (
+			definition.channel_types &&
+			'channel' in option &&
+			option.channel &&
+			!definition.channel_types.includes(option.channel.type)
+		) {
+			throw new RangeError(`The channel of the "${option.name}" option of "${path}" is not of an allowed type`);
+		}
+	}
+
+	for (const definition of definitions) {
+		if (definition.required && !options.some((option) => option.name === definition.name)) {
+			throw new RangeError(`The required "${definition.name}" option of "${path}" is missing`);
+		}
+	}
+}
+
+/**
+ * Resolves the options of a chat input command interaction like {@link resolveChatInputOptions}, typed after the
+ * definition the command was registered with
+ *
+ * Autocomplete interactions are not accepted, as their options can be missing and their focused option holds the
+ * partial input of the user; use {@link resolveChatInputOptions} for them instead
+ *
+ * @param command The definition the command was registered with
+ * @param interaction The chat input command interaction
+ * @throws {RangeError} If the interaction is not for the given command, its subcommand path is not part of the
+ * definition, or its options do not match the definition (an unknown option, an option of the wrong type or outside of
+ * its `choices` or `channel_types`, or a missing required option)
+ */
+export function resolveChatInputCommandOptions<const Command extends ChatInputCommandDefinition>(
+	command: Command,
+	interaction: APIChatInputApplicationCommandInteraction,
+): InferredChatInputOptions<Command> {
+	if (interaction.data.name !== command.name) {
+		throw new RangeError(
+			`Expected an interaction for the "${command.name}" command, got "${interaction.data.name}"`,
+		);
+	}
+
+	const { subcommandGroup, subcommand, options } = resolveChatInputOptions(interaction);
+	const path = [command.name, subcommandGroup, subcommand].filter((name) => name !== null).join(' ');
+	let definitions = command.options;
+
+	if (subcommandGroup !== null) {
+		const group = findSubcommandDefinition(
+			definitions,
+			ApplicationCommandOptionType.SubcommandGroup,
+			subcommandGroup,
+		);
+		if (!group) throw new RangeError(`The "${path}" subcommand is not part of the command definition`);
+
+		definitions = group.options;
+	}
+
+	if (subcommand === null) {
+		if (hasSubcommands(definitions)) {
+			throw new RangeError(`Expected a subcommand of "${path}", as the command definition has subcommands`);
+		}
+	} else {
+		const definition = findSubcommandDefinition(definitions, ApplicationCommandOptionType.Subcommand, subcommand);
+		if (!definition) throw new RangeError(`The "${path}" subcommand is not part of the command definition`);
+
+		definitions = definition.options;
+	}
+
+	validateOptionsAgainstDefinitions(path, options, definitions ?? []);
+
+	return {
+		subcommandGroup,
+		subcommand,
+		options: Object.fromEntries(options.map((option) => [option.name, option])),
+	} as InferredChatInputOptions<Command>;
+}
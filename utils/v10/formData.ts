@@ -0,0 +1,280 @@
+import type { RESTAPIAttachment } from '../../rest/v10/index';
+
+/**
+ * A file to upload along with a JSON body
+ */
+export interface RESTFormDataFile {
+	/**
+	 * The name of the file, including its extension
+	 */
+	name: string;
+	/**
+	 * The contents of the file
+	 */
+	data: Uint8Array | string;
+	/**
+	 * The media type of the file
+	 *
+	 * @defaultValue `'application/octet-stream'`
+	 */
+	contentType?: string;
+	/**
+	 * The description (alt text) of the file
+	 */
+	description?: string;
+}
+
+/**
+ * A file decoded from a multipart body
+ */
+export interface RESTDecodedFormDataFile {
+	/**
+	 * The index of the file, matching `n` in `files[n]` and the `id` of its entry in `attachments`
+	 */
+	index: number;
+	/**
+	 * The name of the file, including its extension
+	 */
+	name: string;
+	/**
+	 * The contents of the file
+	 */
+	data: Uint8Array;
+	/**
+	 * The media type of the file
+	 */
+	contentType: string;
+}
+
+/**
+ * A `multipart/form-data` request body
+ */
+export interface RESTMultipartBody {
+	/**
+	 * The value of the `Content-Type` header to send the body with, holding its boundary
+	 */
+	contentType: string;
+	/**
+	 * The encoded body
+	 */
+	body: Uint8Array;
+}
+
+/**
+ * The contents of a decoded `multipart/form-data` request body
+ */
+export interface RESTDecodedMultipartBody<Body> {
+	/**
+	 * The JSON body sent in the `payload_json` field, or `null` if there is none
+	 */
+	payload: Body | null;
+	/**
+	 * The files sent in the `files[n]` fields, ordered by their index
+	 */
+	files: RESTDecodedFormDataFile[];
+	/**
+	 * The other fields of the body, sent as plain text
+	 */
+	fields: Record<string, string>;
+}
+
+/**
+ * A JSON body that can be sent along with files
+ */
+export interface RESTFormDataJSONBody {
+	attachments?: RESTAPIAttachment[] | undefined;
+}
+
+const FilesFieldPattern = /^files\[(?<index>\d+)]$/;
+
+const DefaultContentType = 'application/octet-stream';
+
+// eslint-disable-next-line n/prefer-global/text-encoder
+const encoder = new TextEncoder();
+
+// eslint-disable-next-line n/prefer-global/text-decoder
+const decoder = new TextDecoder();
+
+function escapeHeaderValue(value: string) {
+	return value.replaceAll('%', '%25').replaceAll('"', '%22').replaceAll('\r', '%0D').replaceAll('\n', '%0A');
+}
+
+const HeaderValueEscapes: Readonly<Record<string, string>> = { '%22': '"', '%0D': '\r', '%0A': '\n', '%25': '%' };
+
+function unescapeHeaderValue(value: string) {
+	return value.replaceAll(/%(?:22|0D|0A|25)/g, (escape) => HeaderValueEscapes[escape]!);
+}
+
+function concatBytes(chunks: readonly Uint8Array[]) {
+	const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+	let offset = 0;
+
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	return bytes;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from: number) {
+	for (let index = from; index <= haystack.length - needle.length; index++) {
+		if (needle.every((byte, offset) => haystack[index + offset] === byte)) return index;
+	}
+
+	return -1;
+}
+
+/**
+ * Adds an entry to `attachments` for each file, with the index of the file as its id, keeping the entries already
+ * present (for instance the attachments to keep when editing a message)
+ *
+ * @param body The JSON body to send the files with
+ * @param files The files to send
+ */
+export function assignAttachmentIds<Body extends RESTFormDataJSONBody>(
+	body: Body,
+	files: readonly RESTFormDataFile[],
+): Body & { attachments: RESTAPIAttachment[] } {
+	const attachments = [...(body.attachments ?? [])];
+
+	for (const [index, file] of files.entries()) {
+		const existing = attachments.findIndex((attachment) => attachment.id === index);
+		const attachment: RESTAPIAttachment = { id: index, filename: file.name };
+		if (file.description !== undefined) attachment.description = file.description;
+
+		if (existing === -1) {
+			attachments.push(attachment);
+		} else {
+			attachments[existing] = { ...attachment, ...attachments[existing] };
+		}
+	}
+
+	return { ...body, attachments };
+}
+
+/**
+ * Encodes a JSON body and files into a `multipart/form-data` body, sending the JSON body as `payload_json` and each
+ * file as `files[n]`, with the matching `attachments` entries assigned automatically
+ *
+ * See https://discord.com/developers/docs/reference#uploading-files
+ *
+ * @example
+ * ```ts
+ * const { contentType, body } = encodeRESTMultipartBody(
+ * 	{ content: 'Look!', embeds: [{ image: { url: 'attachment://cat.png' } }] },
+ * 	[{ name: 'cat.png', data: image, contentType: 'image/png' }],
+ * );
+ *
+ * await fetch(url, { method: 'POST', headers: { 'Content-Type': contentType }, body });
+ * ```
+ * @param body The JSON body
+ * @param files The files to upload
+ * @param boundary The boundary separating the parts of the body, generated randomly by default
+ * @throws {RangeError} If the content type of a file contains a line break
+ */
+export function encodeRESTMultipartBody<Body extends RESTFormDataJSONBody>(
+	body: Body,
+	files: readonly RESTFormDataFile[],
+	boundary = `discord-api-types-${Math.random().toString(16).slice(2)}${Date.now().toString(16)}`,
+): RESTMultipartBody {
+	const payload = files.length ? assignAttachmentIds(body, files) : body;
+	const chunks: Uint8Array[] = [
+		encoder.encode(
+			`--${boundary}\r\nContent-Disposition: form-data; name="payload_json"\r\nContent-Type: application/json\r\n\r\n${JSON.stringify(payload)}\r\n`,
+		),
+	];
+
+	for (const [index, file] of files.entries()) {
+		if (file.contentType !== undefined && /[\n\r]/.test(file.contentType)) {
+			throw new RangeError(`The content type of files[${index}] must not contain line breaks`);
+		}
+
+		chunks.push(
+			encoder.encode(
+				`--${boundary}\r\nContent-Disposition: form-data; name="files[${index}]"; filename="${escapeHeaderValue(file.name)}"\r\nContent-Type: ${file.contentType ?? DefaultContentType}\r\n\r\n`,
+			),
+			typeof file.data === 'string' ? encoder.encode(file.data) : file.data,
+			encoder.encode('\r\n'),
+		);
+	}
+
+	chunks.push(encoder.encode(`--${boundary}--\r\n`));
+
+	return { contentType: `multipart/form-data; boundary=${boundary}`, body: concatBytes(chunks) };
+}
+
+/**
+ * Decodes a `multipart/form-data` body sent to the API, such as one encoded by {@link encodeRESTMultipartBody}
+ *
+ * @param body The raw body
+ * @param contentType The value of the `Content-Type` header the body was sent with
+ * @throws {RangeError} If the content type has no boundary, or the body is malformed (including a `payload_json`
+ * part that is not valid JSON)
+ */
+export function decodeRESTMultipartBody<Body = unknown>(
+	body: Uint8Array | string,
+	contentType: string,
+): RESTDecodedMultipartBody<Body> {
+	const boundary = /boundary=(?:"(?<quoted>[^"]+)"|(?<token>[^\s;]+))/i.exec(contentType)?.groups;
+	if (!boundary) throw new RangeError('The content type has no multipart boundary');
+
+	const bytes = typeof body === 'string' ? encoder.encode(body) : body;
+	const delimiter = encoder.encode(`--${boundary.quoted ?? boundary.token}`);
+	const nextDelimiter = encoder.encode(`\r\n--${boundary.quoted ?? boundary.token}`);
+	const headerSeparator = encoder.encode('\r\n\r\n');
+
+	const result: RESTDecodedMultipartBody<Body> = { payload: null, files: [], fields: {} };
+	let position = indexOfBytes(bytes, delimiter, 0);
+	if (position === -1) throw new RangeError('The body does not contain the multipart boundary');
+
+	while (true) {
+		position += delimiter.length;
+		// The closing delimiter is followed by "--"
+		if (bytes[position] === 0x2d && bytes[position + 1] === 0x2d) break;
+
+		const headersEnd = indexOfBytes(bytes, headerSeparator, position);
+		const next = indexOfBytes(bytes, nextDelimiter, position);
+		if (headersEnd === -1 || next === -1 || headersEnd > next)
+			throw new RangeError('The body has a malformed part');
+
+		const headers = new Map<string, string>();
+		for (const line of decoder.decode(bytes.subarray(position, headersEnd)).split('\r\n')) {
+			const separator = line.indexOf(':');
+			if (separator !== -1)
+				headers.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+		}
+
+		const data = bytes.slice(headersEnd + headerSeparator.length, next);
+		const disposition = headers.get('content-disposition') ?? '';
+		const name = /\bname="(?<name>[^"]*)"/.exec(disposition)?.groups?.name;
+		const filename = /\bfilename="(?<filename>[^"]*)"/.exec(disposition)?.groups?.filename;
+
+		if (name === undefined) throw new RangeError('The body has a part without a name');
+
+		const fileIndex = FilesFieldPattern.exec(unescapeHeaderValue(name))?.groups?.index;
+
+		if (name === 'payload_json') {
+			try {
+				result.payload = JSON.parse(decoder.decode(data)) as Body;
+			} catch {
+				throw new RangeError('The body has a payload_json part that is not valid JSON');
+			}
+		} else if (fileIndex !== undefined || filename !== undefined) {
+			result.files.push({
+				index: fileIndex === undefined ? result.files.length : Number(fileIndex),
+				name: unescapeHeaderValue(filename ?? name),
+				data,
+				contentType: headers.get('content-type') ?? DefaultContentType,
+			});
+		} else {
+			result.fields[unescapeHeaderValue(name)] = decoder.decode(data);
+		}
+
+		// Skip the line break preceding the next delimiter
+		position = next + 2;
+	}
+
+	result.files.sort((first, second) => first.index - second.index);
+	return result;
+}
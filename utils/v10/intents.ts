@@ -0,0 +1,252 @@
+import type { GatewayDispatchPayload } from '../../gateway/v10';
+import { GatewayDispatchEvents, GatewayIntentBits } from '../../gateway/v10';
+
+const MessageReactionEvents = [
+	GatewayDispatchEvents.MessageReactionAdd,
+	GatewayDispatchEvents.MessageReactionRemove,
+	GatewayDispatchEvents.MessageReactionRemoveAll,
+	GatewayDispatchEvents.MessageReactionRemoveEmoji,
+] as const;
+
+const MessagePollEvents = [
+	GatewayDispatchEvents.MessagePollVoteAdd,
+	GatewayDispatchEvents.MessagePollVoteRemove,
+] as const;
+
+/**
+ * The dispatch events each intent gates
+ *
+ * {@link GatewayIntentBits.MessageContent} does not gate any event, see {@link MessageContentIntentFields} instead
+ *
+ * See https://discord.com/developers/docs/topics/gateway#list-of-intents
+ */
+export const GatewayIntentEvents = {
+	[GatewayIntentBits.Guilds]: [
+		GatewayDispatchEvents.GuildCreate,
+		GatewayDispatchEvents.GuildUpdate,
+		GatewayDispatchEvents.GuildDelete,
+		GatewayDispatchEvents.GuildRoleCreate,
+		GatewayDispatchEvents.GuildRoleUpdate,
+		GatewayDispatchEvents.GuildRoleDelete,
+		GatewayDispatchEvents.ChannelCreate,
+		GatewayDispatchEvents.ChannelUpdate,
+		GatewayDispatchEvents.ChannelDelete,
+		GatewayDispatchEvents.ChannelPinsUpdate,
+		GatewayDispatchEvents.ThreadCreate,
+		GatewayDispatchEvents.ThreadUpdate,
+		GatewayDispatchEvents.ThreadDelete,
+		GatewayDispatchEvents.ThreadListSync,
+		GatewayDispatchEvents.ThreadMemberUpdate,
+		GatewayDispatchEvents.ThreadMembersUpdate,
+		GatewayDispatchEvents.StageInstanceCreate,
+		GatewayDispatchEvents.StageInstanceUpdate,
+		GatewayDispatchEvents.StageInstanceDelete,
+	],
+	[GatewayIntentBits.GuildMembers]: [
+		GatewayDispatchEvents.GuildMemberAdd,
+		GatewayDispatchEvents.GuildMemberUpdate,
+		GatewayDispatchEvents.GuildMemberRemove,
+		GatewayDispatchEvents.ThreadMembersUpdate,
+	],
+	[GatewayIntentBits.GuildModeration]: [
+		GatewayDispatchEvents.GuildAuditLogEntryCreate,
+		GatewayDispatchEvents.GuildBanAdd,
+		GatewayDispatchEvents.GuildBanRemove,
+	],
+	[GatewayIntentBits.GuildExpressions]: [
+		GatewayDispatchEvents.GuildEmojisUpdate,
+		GatewayDispatchEvents.GuildStickersUpdate,
+		GatewayDispatchEvents.GuildSoundboardSoundCreate,
+		GatewayDispatchEvents.GuildSoundboardSoundUpdate,
+		GatewayDispatchEvents.GuildSoundboardSoundDelete,
+		GatewayDispatchEvents.GuildSoundboardSoundsUpdate,
+	],
+	[GatewayIntentBits.GuildIntegrations]: [
+		GatewayDispatchEvents.GuildIntegrationsUpdate,
+		GatewayDispatchEvents.IntegrationCreate,
+		GatewayDispatchEvents.IntegrationUpdate,
+		GatewayDispatchEvents.IntegrationDelete,
+	],
+	[GatewayIntentBits.GuildWebhooks]: [GatewayDispatchEvents.WebhooksUpdate],
+	[GatewayIntentBits.GuildInvites]: [GatewayDispatchEvents.InviteCreate, GatewayDispatchEvents.InviteDelete],
+	[GatewayIntentBits.GuildVoiceStates]: [
+		GatewayDispatchEvents.VoiceChannelEffectSend,
+		GatewayDispatchEvents.VoiceStateUpdate,
+	],
+	[GatewayIntentBits.GuildPresences]: [GatewayDispatchEvents.PresenceUpdate],
+	[GatewayIntentBits.GuildMessages]: [
+		GatewayDispatchEvents.MessageCreate,
+		GatewayDispatchEvents.MessageUpdate,
+		GatewayDispatchEvents.MessageDelete,
+		GatewayDispatchEvents.MessageDeleteBulk,
+	],
+	[GatewayIntentBits.GuildMessageReactions]: MessageReactionEvents,
+	[GatewayIntentBits.GuildMessageTyping]: [GatewayDispatchEvents.TypingStart],
+	[GatewayIntentBits.DirectMessages]: [
+		GatewayDispatchEvents.MessageCreate,
+		GatewayDispatchEvents.MessageUpdate,
+		GatewayDispatchEvents.MessageDelete,
+		GatewayDispatchEvents.ChannelPinsUpdate,
+	],
+	[GatewayIntentBits.DirectMessageReactions]: MessageReactionEvents,
+	[GatewayIntentBits.DirectMessageTyping]: [GatewayDispatchEvents.TypingStart],
+	[GatewayIntentBits.MessageContent]: [],
+	[GatewayIntentBits.GuildScheduledEvents]: [
+		GatewayDispatchEvents.GuildScheduledEventCreate,
+		GatewayDispatchEvents.GuildScheduledEventUpdate,
+		GatewayDispatchEvents.GuildScheduledEventDelete,
+		GatewayDispatchEvents.GuildScheduledEventUserAdd,
+		GatewayDispatchEvents.GuildScheduledEventUserRemove,
+	],
+	[GatewayIntentBits.AutoModerationConfiguration]: [
+		GatewayDispatchEvents.AutoModerationRuleCreate,
+		GatewayDispatchEvents.AutoModerationRuleUpdate,
+		GatewayDispatchEvents.AutoModerationRuleDelete,
+	],
+	[GatewayIntentBits.AutoModerationExecution]: [GatewayDispatchEvents.AutoModerationActionExecution],
+	[GatewayIntentBits.GuildMessagePolls]: MessagePollEvents,
+	[GatewayIntentBits.DirectMessagePolls]: MessagePollEvents,
+} as const satisfies Record<GatewayIntentBits, readonly GatewayDispatchEvents[]>;
+
+// Freeze the object so it can't be changed
+Object.freeze(GatewayIntentEvents);
+
+/**
+ * The dispatch events gated by an intent
+ */
+export type GatewayIntentEvent<Intent extends GatewayIntentBits> = (typeof GatewayIntentEvents)[Intent][number];
+
+/**
+ * The dispatch events that are sent regardless of the intents of the connection
+ */
+export const UngatedDispatchEvents = [
+	GatewayDispatchEvents.Ready,
+	GatewayDispatchEvents.Resumed,
+	GatewayDispatchEvents.UserUpdate,
+	GatewayDispatchEvents.VoiceServerUpdate,
+	GatewayDispatchEvents.InteractionCreate,
+	GatewayDispatchEvents.ApplicationCommandPermissionsUpdate,
+	GatewayDispatchEvents.GuildMembersChunk,
+	GatewayDispatchEvents.SoundboardSounds,
+	GatewayDispatchEvents.EntitlementCreate,
+	GatewayDispatchEvents.EntitlementUpdate,
+	GatewayDispatchEvents.EntitlementDelete,
+	GatewayDispatchEvents.SubscriptionCreate,
+	GatewayDispatchEvents.SubscriptionUpdate,
+	GatewayDispatchEvents.SubscriptionDelete,
+] as const;
+
+// Freeze the array so it can't be changed
+Object.freeze(UngatedDispatchEvents);
+
+/**
+ * The intents that have to be enabled for the application in the developer portal before they can be used
+ *
+ * See https://discord.com/developers/docs/topics/gateway#privileged-intents
+ */
+export const PrivilegedGatewayIntents = [
+	GatewayIntentBits.GuildMembers,
+	GatewayIntentBits.GuildPresences,
+	GatewayIntentBits.MessageContent,
+] as const;
+
+// Freeze the array so it can't be changed
+Object.freeze(PrivilegedGatewayIntents);
+
+/**
+ * The message fields that are empty without the {@link GatewayIntentBits.MessageContent} intent, unless the message
+ * was sent by the application, sent in a DM with it, or mentions it
+ *
+ * See https://discord.com/developers/docs/events/gateway#message-content-intent
+ */
+export const MessageContentIntentFields = ['content', 'embeds', 'attachments', 'components', 'poll'] as const;
+
+// Freeze the array so it can't be changed
+Object.freeze(MessageContentIntentFields);
+
+/**
+ * The message fields that are empty without the {@link GatewayIntentBits.MessageContent} intent
+ */
+export type MessageContentIntentField = (typeof MessageContentIntentFields)[number];
+
+/**
+ * The dispatch events that can be received by a connection identified with the given intents
+ */
+export type GatewayIntentsDispatchEvent<Intents extends GatewayIntentBits> =
+	| (typeof UngatedDispatchEvents)[number]
+	| GatewayIntentEvent<Intents>;
+
+/**
+ * The dispatch payloads that can be received by a connection identified with the given intents
+ *
+ * @example
+ * ```ts
+ * type Payload = GatewayDispatchPayloadForIntents<GatewayIntentBits.Guilds | GatewayIntentBits.GuildMessages>;
+ * ```
+ */
+export type GatewayDispatchPayloadForIntents<Intents extends GatewayIntentBits> = Extract<
+	GatewayDispatchPayload,
+	{ t: GatewayIntentsDispatchEvent<Intents> }
+>;
+
+function resolveIntents(intents: number | readonly GatewayIntentBits[]) {
+	return typeof intents === 'number' ? intents : intents.reduce<number>((bitfield, intent) => bitfield | intent, 0);
+}
+
+/**
+ * Checks whether an intent is privileged
+ *
+ * @param intent The intent to check
+ */
+export function isPrivilegedIntent(intent: GatewayIntentBits) {
+	return (PrivilegedGatewayIntents as readonly GatewayIntentBits[]).includes(intent);
+}
+
+/**
+ * Gets the intents that gate a dispatch event, any of which is enough to receive the event in the context it covers
+ * (for instance {@link GatewayIntentBits.GuildMessageReactions} for guilds and
+ * {@link GatewayIntentBits.DirectMessageReactions} for DMs)
+ *
+ * @param event The dispatch event
+ * @returns The intents that gate the event, or an empty array if the event is not gated by any intent
+ */
+export function getDispatchEventIntents(event: GatewayDispatchEvents): GatewayIntentBits[] {
+	const intents: GatewayIntentBits[] = [];
+
+	for (const [intent, events] of Object.entries(GatewayIntentEvents)) {
+		if ((events as readonly GatewayDispatchEvents[]).includes(event)) intents.push(Number(intent));
+	}
+
+	return intents;
+}
+
+/**
+ * Gets the dispatch events that can be received by a connection identified with the given intents
+ *
+ * @param intents The intents bitfield, or an array of intents
+ */
+export function getIntentsDispatchEvents(intents: number | readonly GatewayIntentBits[]): Set<GatewayDispatchEvents> {
+	const bitfield = resolveIntents(intents);
+	const events = new Set<GatewayDispatchEvents>(UngatedDispatchEvents);
+
+	for (const [intent, intentEvents] of Object.entries(GatewayIntentEvents)) {
+		if ((bitfield & Number(intent)) === 0) continue;
+
+		for (const event of intentEvents) events.add(event);
+	}
+
+	return events;
+}
+
+/**
+ * Checks whether a dispatch payload can be received by a connection identified with the given intents
+ *
+ * @param payload The dispatch payload to check
+ * @param intents The intents of the connection
+ */
+export function isDispatchPayloadForIntents<Intents extends GatewayIntentBits>(
+	payload: GatewayDispatchPayload,
+	intents: readonly Intents[],
+): payload is GatewayDispatchPayloadForIntents<Intents> {
+	return getIntentsDispatchEvents(intents).has(payload.t);
+}
@@ -0,0 +1,167 @@
+import type { Permissions, Snowflake } from '../../globals';
+import type { APIGuild, APIGuildMember, APIOverwrite } from '../../payloads/v10/index';
+import { OverwriteType, PermissionFlagsBits } from '../../payloads/v10/index';
+
+/**
+ * The guild data required to compute the permissions of a member
+ *
+ * An {@link APIGuild} can be passed as is, otherwise the guild's roles (for instance from `GET /guilds/{guild.id}/roles`)
+ * can be passed alongside the guild id and owner id
+ */
+export type PermissionsGuild = Pick<APIGuild, 'id' | 'owner_id' | 'roles'>;
+
+/**
+ * Every permission bit, as given to the guild owner and to members with the `Administrator` permission
+ */
+const AllPermissions = Object.values(PermissionFlagsBits).reduce((all, bit) => all | bit, 0n);
+
+/**
+ * The permissions that a member who is timed out keeps in every channel
+ */
+const TimedOutPermissions = PermissionFlagsBits.ViewChannel | PermissionFlagsBits.ReadMessageHistory;
+
+/**
+ * Converts a {@link Permissions} string, as received from the API, into a bigint
+ *
+ * @param permissions The permissions string to deserialize
+ * @returns The permissions as a bigint
+ */
+// eslint-disable-next-line unicorn/prefer-native-coercion-functions
+export function deserializePermissions(permissions: Permissions): bigint {
+	return BigInt(permissions);
+}
+
+/**
+ * Converts a permissions bigint into a {@link Permissions} string, as expected by the API
+ *
+ * @param permissions The permissions bigint to serialize
+ * @returns The permissions as a string
+ */
+export function serializePermissions(permissions: bigint): Permissions {
+	return permissions.toString();
+}
+
+/**
+ * Computes the guild-wide permissions of a member, before applying any channel overwrites
+ *
+ * See https://discord.com/developers/docs/topics/permissions#permission-overwrites
+ *
+ * @param guild The guild the member is in
+ * @param member The member to compute the permissions for
+ * @returns The base permissions of the member
+ */
+export function computeBasePermissions(guild: PermissionsGuild, member: APIGuildMember): bigint {
+	if (member.user.id === guild.owner_id) {
+		return AllPermissions;
+	}
+
+	let permissions = 0n;
+
+	for (const role of guild.roles) {
+		// The @everyone role shares its id with the guild, and is not listed in the member's roles
+		if (role.id === guild.id || member.roles.includes(role.id)) {
+			permissions |= deserializePermissions(role.permissions);
+		}
+	}
+
+	if ((permissions & PermissionFlagsBits.Administrator) === PermissionFlagsBits.Administrator) {
+		return AllPermissions;
+	}
+
+	return permissions;
+}
+
+/**
+ * Applies the permission overwrites of a channel on top of the base permissions of a member
+ *
+ * See https://discord.com/developers/docs/topics/permissions#permission-overwrites
+ *
+ * @param basePermissions The base permissions of the member, as returned by {@link computeBasePermissions}
+ * @param guildId The id of the guild the channel is in
+ * @param member The member to compute the permissions for
+ * @param overwrites The `permission_overwrites` of the channel
+ * @returns The permissions of the member in the channel
+ */
+export function computeOverwrites(
+	basePermissions: bigint,
+	guildId: Snowflake,
+	member: APIGuildMember,
+	overwrites: readonly APIOverwrite[],
+): bigint {
+	if ((basePermissions & PermissionFlagsBits.Administrator) === PermissionFlagsBits.Administrator) {
+		return AllPermissions;
+	}
+
+	let permissions = basePermissions;
+
+	const everyoneOverwrite = overwrites.find(
+		(overwrite) => overwrite.type === OverwriteType.Role && overwrite.id === guildId,
+	);
+
+	if (everyoneOverwrite) {
+		permissions &= ~deserializePermissions(everyoneOverwrite.deny);
+		permissions |= deserializePermissions(everyoneOverwrite.allow);
+	}
+
+	// Role overwrites are applied all at once, so that an allow on any of the member's roles wins over a deny on another
+	let allow = 0n;
+	let deny = 0n;
+
+	for (const overwrite of overwrites) {
+		if (overwrite.type === OverwriteType.Role && overwrite.id !== guildId && member.roles.includes(overwrite.id)) {
+			allow |= deserializePermissions(overwrite.allow);
+			deny |= deserializePermissions(overwrite.deny);
+		}
+	}
+
+	permissions &= ~deny;
+	permissions |= allow;
+
+	const memberOverwrite = overwrites.find(
+		(overwrite) => overwrite.type === OverwriteType.Member && overwrite.id === member.user.id,
+	);
+
+	if (memberOverwrite) {
+		permissions &= ~deserializePermissions(memberOverwrite.deny);
+		permissions |= deserializePermissions(memberOverwrite.allow);
+	}
+
+	return permissions;
+}
+
+/**
+ * Computes the permissions of a member, either guild-wide or in a channel when its overwrites are provided
+ *
+ * Members that are timed out only keep the `ViewChannel` and `ReadMessageHistory` permissions, unless they are the guild
+ * owner or have the `Administrator` permission
+ *
+ * See https://discord.com/developers/docs/topics/permissions#permission-overwrites
+ *
+ * @param guild The guild the member is in
+ * @param member The member to compute the permissions for
+ * @param overwrites The `permission_overwrites` of the channel, if computing the permissions in a channel
+ * @param now The timestamp (in milliseconds) to check the member's timeout against, defaults to `Date.now()`
+ * @returns The computed permissions of the member
+ */
+export function computePermissions(
+	guild: PermissionsGuild,
+	member: APIGuildMember,
+	overwrites?: readonly APIOverwrite[],
+	now = Date.now(),
+): bigint {
+	const basePermissions = computeBasePermissions(guild, member);
+	const permissions = overwrites ? computeOverwrites(basePermissions, guild.id, member, overwrites) : basePermissions;
+	const isExemptFromTimeout =
+		member.user.id === guild.owner_id ||
+		(basePermissions & PermissionFlagsBits.Administrator) === PermissionFlagsBits.Administrator;
+
+	if (
+		!isExemptFromTimeout &&
+		member.communication_disabled_until &&
+		Date.parse(member.communication_disabled_until) > now
+	) {
+		return permissions & TimedOutPermissions;
+	}
+
+	return permissions;
+}
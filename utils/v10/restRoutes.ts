@@ -0,0 +1,1145 @@
+import type {
+	RESTDeleteAPIApplicationEmojiResult,
+	RESTDeleteAPIAutoModerationRuleResult,
+	RESTDeleteAPIChannelAllMessageReactionsResult,
+	RESTDeleteAPIChannelMessageOwnReactionResult,
+	RESTDeleteAPIChannelMessageReactionResult,
+	RESTDeleteAPIChannelMessageResult,
+	RESTDeleteAPIChannelMessageUserReactionResult,
+	RESTDeleteAPIChannelPermissionResult,
+	RESTDeleteAPIChannelPinResult,
+	RESTDeleteAPIChannelRecipientResult,
+	RESTDeleteAPIChannelResult,
+	RESTDeleteAPIChannelThreadMembersResult,
+	RESTDeleteAPICurrentUserGuildResult,
+	RESTDeleteAPIEntitlementResult,
+	RESTDeleteAPIGuildBanResult,
+	RESTDeleteAPIGuildEmojiResult,
+	RESTDeleteAPIGuildIntegrationResult,
+	RESTDeleteAPIGuildMemberResult,
+	RESTDeleteAPIGuildMemberRoleResult,
+	RESTDeleteAPIGuildResult,
+	RESTDeleteAPIGuildRoleResult,
+	RESTDeleteAPIGuildScheduledEventResult,
+	RESTDeleteAPIGuildSoundboardSoundResult,
+	RESTDeleteAPIGuildStickerResult,
+	RESTDeleteAPIGuildTemplateResult,
+	RESTDeleteAPIInteractionFollowupResult,
+	RESTDeleteAPIInviteResult,
+	RESTDeleteAPIStageInstanceResult,
+	RESTDeleteAPIWebhookResult,
+	RESTDeleteAPIWebhookWithTokenMessageResult,
+	RESTDeleteAPIWebhookWithTokenResult,
+	RESTGetAPIApplicationCommandPermissionsResult,
+	RESTGetAPIApplicationCommandResult,
+	RESTGetAPIApplicationCommandsQuery,
+	RESTGetAPIApplicationCommandsResult,
+	RESTGetAPIApplicationEmojiResult,
+	RESTGetAPIApplicationEmojisResult,
+	RESTGetAPIApplicationGuildCommandResult,
+	RESTGetAPIApplicationGuildCommandsQuery,
+	RESTGetAPIApplicationGuildCommandsResult,
+	RESTGetAPIApplicationRoleConnectionMetadataResult,
+	RESTGetAPIAuditLogQuery,
+	RESTGetAPIAuditLogResult,
+	RESTGetAPIAutoModerationRuleResult,
+	RESTGetAPIAutoModerationRulesResult,
+	RESTGetAPIChannelInvitesResult,
+	RESTGetAPIChannelMessageReactionUsersQuery,
+	RESTGetAPIChannelMessageReactionUsersResult,
+	RESTGetAPIChannelMessageResult,
+	RESTGetAPIChannelMessagesQuery,
+	RESTGetAPIChannelMessagesResult,
+	RESTGetAPIChannelPinsResult,
+	RESTGetAPIChannelResult,
+	RESTGetAPIChannelThreadMemberQuery,
+	RESTGetAPIChannelThreadMemberResult,
+	RESTGetAPIChannelThreadMembersQuery,
+	RESTGetAPIChannelThreadMembersResult,
+	RESTGetAPIChannelThreadsArchivedPrivateResult,
+	RESTGetAPIChannelThreadsArchivedPublicResult,
+	RESTGetAPIChannelThreadsArchivedQuery,
+	RESTGetAPIChannelUsersThreadsArchivedResult,
+	RESTGetAPIChannelWebhooksResult,
+	RESTGetAPICurrentUserApplicationRoleConnectionResult,
+	RESTGetAPICurrentUserConnectionsResult,
+	RESTGetAPICurrentUserGuildsQuery,
+	RESTGetAPICurrentUserGuildsResult,
+	RESTGetAPICurrentUserResult,
+	RESTGetAPIEntitlementResult,
+	RESTGetAPIEntitlementsQuery,
+	RESTGetAPIEntitlementsResult,
+	RESTGetAPIGatewayBotResult,
+	RESTGetAPIGatewayResult,
+	RESTGetAPIGuildApplicationCommandsPermissionsResult,
+	RESTGetAPIGuildBanResult,
+	RESTGetAPIGuildBansQuery,
+	RESTGetAPIGuildBansResult,
+	RESTGetAPIGuildChannelsResult,
+	RESTGetAPIGuildEmojiResult,
+	RESTGetAPIGuildEmojisResult,
+	RESTGetAPIGuildIntegrationsResult,
+	RESTGetAPIGuildInvitesResult,
+	RESTGetAPIGuildMemberResult,
+	RESTGetAPIGuildMemberVerificationResult,
+	RESTGetAPIGuildMembersQuery,
+	RESTGetAPIGuildMembersResult,
+	RESTGetAPIGuildMembersSearchQuery,
+	RESTGetAPIGuildMembersSearchResult,
+	RESTGetAPIGuildOnboardingResult,
+	RESTGetAPIGuildPreviewResult,
+	RESTGetAPIGuildPruneCountQuery,
+	RESTGetAPIGuildPruneCountResult,
+	RESTGetAPIGuildQuery,
+	RESTGetAPIGuildResult,
+	RESTGetAPIGuildRoleResult,
+	RESTGetAPIGuildRolesResult,
+	RESTGetAPIGuildScheduledEventQuery,
+	RESTGetAPIGuildScheduledEventResult,
+	RESTGetAPIGuildScheduledEventUsersQuery,
+	RESTGetAPIGuildScheduledEventUsersResult,
+	RESTGetAPIGuildScheduledEventsQuery,
+	RESTGetAPIGuildScheduledEventsResult,
+	RESTGetAPIGuildSoundboardSoundResult,
+	RESTGetAPIGuildSoundboardSoundsResult,
+	RESTGetAPIGuildStickerResult,
+	RESTGetAPIGuildStickersResult,
+	RESTGetAPIGuildTemplatesResult,
+	RESTGetAPIGuildThreadsResult,
+	RESTGetAPIGuildVanityUrlResult,
+	RESTGetAPIGuildVoiceRegionsResult,
+	RESTGetAPIGuildVoiceStateCurrentMemberResult,
+	RESTGetAPIGuildVoiceStateUserResult,
+	RESTGetAPIGuildWebhooksResult,
+	RESTGetAPIGuildWelcomeScreenResult,
+	RESTGetAPIGuildWidgetImageQuery,
+	RESTGetAPIGuildWidgetImageResult,
+	RESTGetAPIGuildWidgetJSONResult,
+	RESTGetAPIGuildWidgetSettingsResult,
+	RESTGetAPIInviteQuery,
+	RESTGetAPIInviteResult,
+	RESTGetAPIOAuth2CurrentApplicationResult,
+	RESTGetAPIOAuth2CurrentAuthorizationResult,
+	RESTGetAPIPollAnswerVotersQuery,
+	RESTGetAPIPollAnswerVotersResult,
+	RESTGetAPISKUSubscriptionResult,
+	RESTGetAPISKUSubscriptionsQuery,
+	RESTGetAPISKUSubscriptionsResult,
+	RESTGetAPISKUsResult,
+	RESTGetAPISoundboardDefaultSoundsResult,
+	RESTGetAPIStageInstanceResult,
+	RESTGetAPIStickerPackResult,
+	RESTGetAPIStickerResult,
+	RESTGetAPITemplateResult,
+	RESTGetAPIUserResult,
+	RESTGetAPIVoiceRegionsResult,
+	RESTGetAPIWebhookResult,
+	RESTGetAPIWebhookWithTokenMessageQuery,
+	RESTGetAPIWebhookWithTokenMessageResult,
+	RESTGetAPIWebhookWithTokenResult,
+	RESTGetCurrentApplicationResult,
+	RESTGetCurrentUserGuildMemberResult,
+	RESTGetNitroStickerPacksResult,
+	RESTGetStickerPacksResult,
+	RESTOAuth2AdvancedBotAuthorizationQuery,
+	RESTOAuth2AuthorizationQuery,
+	RESTOAuth2BotAuthorizationQuery,
+	RESTOAuth2ImplicitAuthorizationQuery,
+	RESTPatchAPIApplicationCommandJSONBody,
+	RESTPatchAPIApplicationCommandResult,
+	RESTPatchAPIApplicationEmojiJSONBody,
+	RESTPatchAPIApplicationEmojiResult,
+	RESTPatchAPIApplicationGuildCommandJSONBody,
+	RESTPatchAPIApplicationGuildCommandResult,
+	RESTPatchAPIAutoModerationRuleJSONBody,
+	RESTPatchAPIAutoModerationRuleResult,
+	RESTPatchAPIChannelJSONBody,
+	RESTPatchAPIChannelMessageFormDataBody,
+	RESTPatchAPIChannelMessageJSONBody,
+	RESTPatchAPIChannelMessageResult,
+	RESTPatchAPIChannelResult,
+	RESTPatchAPICurrentGuildMemberJSONBody,
+	RESTPatchAPICurrentGuildMemberNicknameJSONBody,
+	RESTPatchAPICurrentGuildMemberNicknameResult,
+	RESTPatchAPICurrentUserJSONBody,
+	RESTPatchAPICurrentUserResult,
+	RESTPatchAPIGuildChannelPositionsJSONBody,
+	RESTPatchAPIGuildChannelPositionsResult,
+	RESTPatchAPIGuildEmojiJSONBody,
+	RESTPatchAPIGuildEmojiResult,
+	RESTPatchAPIGuildJSONBody,
+	RESTPatchAPIGuildMemberJSONBody,
+	RESTPatchAPIGuildMemberResult,
+	RESTPatchAPIGuildMemberVerificationJSONBody,
+	RESTPatchAPIGuildMemberVerificationResult,
+	RESTPatchAPIGuildResult,
+	RESTPatchAPIGuildRoleJSONBody,
+	RESTPatchAPIGuildRolePositionsJSONBody,
+	RESTPatchAPIGuildRolePositionsResult,
+	RESTPatchAPIGuildRoleResult,
+	RESTPatchAPIGuildScheduledEventJSONBody,
+	RESTPatchAPIGuildScheduledEventResult,
+	RESTPatchAPIGuildSoundboardSoundJSONBody,
+	RESTPatchAPIGuildSoundboardSoundResult,
+	RESTPatchAPIGuildStickerJSONBody,
+	RESTPatchAPIGuildStickerResult,
+	RESTPatchAPIGuildTemplateJSONBody,
+	RESTPatchAPIGuildTemplateResult,
+	RESTPatchAPIGuildVoiceStateCurrentMemberJSONBody,
+	RESTPatchAPIGuildVoiceStateCurrentMemberResult,
+	RESTPatchAPIGuildVoiceStateUserJSONBody,
+	RESTPatchAPIGuildVoiceStateUserResult,
+	RESTPatchAPIGuildWelcomeScreenJSONBody,
+	RESTPatchAPIGuildWelcomeScreenResult,
+	RESTPatchAPIGuildWidgetSettingsJSONBody,
+	RESTPatchAPIGuildWidgetSettingsResult,
+	RESTPatchAPIInteractionFollowupFormDataBody,
+	RESTPatchAPIInteractionFollowupJSONBody,
+	RESTPatchAPIInteractionFollowupResult,
+	RESTPatchAPIInteractionOriginalResponseFormDataBody,
+	RESTPatchAPIInteractionOriginalResponseJSONBody,
+	RESTPatchAPIInteractionOriginalResponseResult,
+	RESTPatchAPIStageInstanceJSONBody,
+	RESTPatchAPIStageInstanceResult,
+	RESTPatchAPIWebhookJSONBody,
+	RESTPatchAPIWebhookResult,
+	RESTPatchAPIWebhookWithTokenJSONBody,
+	RESTPatchAPIWebhookWithTokenMessageFormDataBody,
+	RESTPatchAPIWebhookWithTokenMessageJSONBody,
+	RESTPatchAPIWebhookWithTokenMessageResult,
+	RESTPatchAPIWebhookWithTokenResult,
+	RESTPatchCurrentApplicationJSONBody,
+	RESTPatchCurrentApplicationResult,
+	RESTPostAPIApplicationCommandsJSONBody,
+	RESTPostAPIApplicationCommandsResult,
+	RESTPostAPIApplicationEmojiJSONBody,
+	RESTPostAPIApplicationEmojiResult,
+	RESTPostAPIApplicationGuildCommandsJSONBody,
+	RESTPostAPIApplicationGuildCommandsResult,
+	RESTPostAPIAutoModerationRuleJSONBody,
+	RESTPostAPIAutoModerationRuleResult,
+	RESTPostAPIChannelFollowersJSONBody,
+	RESTPostAPIChannelFollowersResult,
+	RESTPostAPIChannelInviteJSONBody,
+	RESTPostAPIChannelInviteResult,
+	RESTPostAPIChannelMessageCrosspostResult,
+	RESTPostAPIChannelMessageFormDataBody,
+	RESTPostAPIChannelMessageJSONBody,
+	RESTPostAPIChannelMessageResult,
+	RESTPostAPIChannelMessagesBulkDeleteJSONBody,
+	RESTPostAPIChannelMessagesBulkDeleteResult,
+	RESTPostAPIChannelMessagesThreadsJSONBody,
+	RESTPostAPIChannelMessagesThreadsResult,
+	RESTPostAPIChannelThreadsJSONBody,
+	RESTPostAPIChannelThreadsResult,
+	RESTPostAPIChannelTypingResult,
+	RESTPostAPIChannelWebhookJSONBody,
+	RESTPostAPIChannelWebhookResult,
+	RESTPostAPICurrentUserCreateDMChannelJSONBody,
+	RESTPostAPICurrentUserCreateDMChannelResult,
+	RESTPostAPIEntitlementConsumeResult,
+	RESTPostAPIEntitlementJSONBody,
+	RESTPostAPIEntitlementResult,
+	RESTPostAPIGuildBulkBanJSONBody,
+	RESTPostAPIGuildBulkBanResult,
+	RESTPostAPIGuildChannelJSONBody,
+	RESTPostAPIGuildChannelResult,
+	RESTPostAPIGuildEmojiJSONBody,
+	RESTPostAPIGuildEmojiResult,
+	RESTPostAPIGuildForumThreadsFormDataBody,
+	RESTPostAPIGuildForumThreadsJSONBody,
+	RESTPostAPIGuildPruneJSONBody,
+	RESTPostAPIGuildPruneResult,
+	RESTPostAPIGuildRoleJSONBody,
+	RESTPostAPIGuildRoleResult,
+	RESTPostAPIGuildScheduledEventJSONBody,
+	RESTPostAPIGuildScheduledEventResult,
+	RESTPostAPIGuildSoundboardSoundJSONBody,
+	RESTPostAPIGuildSoundboardSoundResult,
+	RESTPostAPIGuildStickerFormDataBody,
+	RESTPostAPIGuildStickerResult,
+	RESTPostAPIGuildTemplatesJSONBody,
+	RESTPostAPIGuildTemplatesResult,
+	RESTPostAPIGuildsJSONBody,
+	RESTPostAPIGuildsMFAJSONBody,
+	RESTPostAPIGuildsMFAResult,
+	RESTPostAPIGuildsResult,
+	RESTPostAPIInteractionCallbackFormDataBody,
+	RESTPostAPIInteractionCallbackJSONBody,
+	RESTPostAPIInteractionCallbackQuery,
+	RESTPostAPIInteractionCallbackResult,
+	RESTPostAPIInteractionCallbackWithResponseResult,
+	RESTPostAPIInteractionFollowupFormDataBody,
+	RESTPostAPIInteractionFollowupJSONBody,
+	RESTPostAPIInteractionFollowupResult,
+	RESTPostAPIPollExpireResult,
+	RESTPostAPISendSoundboardSoundResult,
+	RESTPostAPISoundboardSendSoundJSONBody,
+	RESTPostAPIStageInstanceJSONBody,
+	RESTPostAPIStageInstanceResult,
+	RESTPostAPITemplateCreateGuildJSONBody,
+	RESTPostAPITemplateCreateGuildResult,
+	RESTPostAPIWebhookWithTokenFormDataBody,
+	RESTPostAPIWebhookWithTokenGitHubQuery,
+	RESTPostAPIWebhookWithTokenGitHubResult,
+	RESTPostAPIWebhookWithTokenGitHubWaitResult,
+	RESTPostAPIWebhookWithTokenJSONBody,
+	RESTPostAPIWebhookWithTokenQuery,
+	RESTPostAPIWebhookWithTokenResult,
+	RESTPostAPIWebhookWithTokenSlackQuery,
+	RESTPostAPIWebhookWithTokenSlackResult,
+	RESTPostAPIWebhookWithTokenSlackWaitResult,
+	RESTPostAPIWebhookWithTokenWaitResult,
+	RESTPostOAuth2AccessTokenResult,
+	RESTPostOAuth2AccessTokenURLEncodedData,
+	RESTPostOAuth2ClientCredentialsResult,
+	RESTPostOAuth2ClientCredentialsURLEncodedData,
+	RESTPostOAuth2RefreshTokenResult,
+	RESTPostOAuth2RefreshTokenURLEncodedData,
+	RESTPostOAuth2TokenRevocationQuery,
+	RESTPutAPIApplicationCommandPermissionsJSONBody,
+	RESTPutAPIApplicationCommandPermissionsResult,
+	RESTPutAPIApplicationCommandsJSONBody,
+	RESTPutAPIApplicationCommandsResult,
+	RESTPutAPIApplicationGuildCommandsJSONBody,
+	RESTPutAPIApplicationGuildCommandsResult,
+	RESTPutAPIApplicationRoleConnectionMetadataJSONBody,
+	RESTPutAPIApplicationRoleConnectionMetadataResult,
+	RESTPutAPIChannelMessageReactionResult,
+	RESTPutAPIChannelPermissionJSONBody,
+	RESTPutAPIChannelPermissionResult,
+	RESTPutAPIChannelPinResult,
+	RESTPutAPIChannelRecipientJSONBody,
+	RESTPutAPIChannelRecipientResult,
+	RESTPutAPIChannelThreadMembersResult,
+	RESTPutAPICurrentUserApplicationRoleConnectionJSONBody,
+	RESTPutAPICurrentUserApplicationRoleConnectionResult,
+	RESTPutAPIGuildApplicationCommandsPermissionsJSONBody,
+	RESTPutAPIGuildApplicationCommandsPermissionsResult,
+	RESTPutAPIGuildBanJSONBody,
+	RESTPutAPIGuildBanResult,
+	RESTPutAPIGuildMemberJSONBody,
+	RESTPutAPIGuildMemberResult,
+	RESTPutAPIGuildMemberRoleResult,
+	RESTPutAPIGuildOnboardingJSONBody,
+	RESTPutAPIGuildOnboardingResult,
+	RESTPutAPIGuildTemplateSyncResult,
+	Routes,
+} from '../../rest/v10/index';
+
+/**
+ * The HTTP methods used by Discord's REST API
+ */
+export enum RequestMethod {
+	Delete = 'DELETE',
+	Get = 'GET',
+	Patch = 'PATCH',
+	Post = 'POST',
+	Put = 'PUT',
+}
+
+/**
+ * The HTTP methods supported by every {@link Routes} route
+ */
+export const RouteMethods = {
+	applicationRoleConnectionMetadata: [RequestMethod.Get, RequestMethod.Put],
+	guildAutoModerationRules: [RequestMethod.Get, RequestMethod.Post],
+	guildAutoModerationRule: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	guildAuditLog: [RequestMethod.Get],
+	channel: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	channelMessages: [RequestMethod.Get, RequestMethod.Post],
+	channelMessage: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	channelMessageCrosspost: [RequestMethod.Post],
+	channelMessageOwnReaction: [RequestMethod.Put, RequestMethod.Delete],
+	channelMessageUserReaction: [RequestMethod.Delete],
+	channelMessageReaction: [RequestMethod.Get, RequestMethod.Delete],
+	channelMessageAllReactions: [RequestMethod.Delete],
+	channelBulkDelete: [RequestMethod.Post],
+	channelPermission: [RequestMethod.Put, RequestMethod.Delete],
+	channelInvites: [RequestMethod.Get, RequestMethod.Post],
+	channelFollowers: [RequestMethod.Post],
+	channelTyping: [RequestMethod.Post],
+	channelPins: [RequestMethod.Get],
+	channelPin: [RequestMethod.Put, RequestMethod.Delete],
+	channelRecipient: [RequestMethod.Put, RequestMethod.Delete],
+	guildEmojis: [RequestMethod.Get, RequestMethod.Post],
+	guildEmoji: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	guilds: [RequestMethod.Post],
+	guild: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	guildPreview: [RequestMethod.Get],
+	guildChannels: [RequestMethod.Get, RequestMethod.Post, RequestMethod.Patch],
+	guildMember: [RequestMethod.Get, RequestMethod.Put, RequestMethod.Patch, RequestMethod.Delete],
+	guildMembers: [RequestMethod.Get],
+	guildMembersSearch: [RequestMethod.Get],
+	guildCurrentMemberNickname: [RequestMethod.Patch],
+	guildMemberRole: [RequestMethod.Put, RequestMethod.Delete],
+	guildMFA: [RequestMethod.Post],
+	guildBans: [RequestMethod.Get],
+	guildBan: [RequestMethod.Get, RequestMethod.Put, RequestMethod.Delete],
+	guildRoles: [RequestMethod.Get, RequestMethod.Post, RequestMethod.Patch],
+	guildRole: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	guildPrune: [RequestMethod.Get, RequestMethod.Post],
+	guildVoiceRegions: [RequestMethod.Get],
+	guildInvites: [RequestMethod.Get],
+	guildIntegrations: [RequestMethod.Get],
+	guildIntegration: [RequestMethod.Delete],
+	guildWidgetSettings: [RequestMethod.Get, RequestMethod.Patch],
+	guildWidgetJSON: [RequestMethod.Get],
+	guildVanityUrl: [RequestMethod.Get],
+	guildWidgetImage: [RequestMethod.Get],
+	invite: [RequestMethod.Get, RequestMethod.Delete],
+	template: [RequestMethod.Get, RequestMethod.Post],
+	guildTemplates: [RequestMethod.Get, RequestMethod.Post],
+	guildTemplate: [RequestMethod.Put, RequestMethod.Patch, RequestMethod.Delete],
+	pollAnswerVoters: [RequestMethod.Get],
+	expirePoll: [RequestMethod.Post],
+	threads: [RequestMethod.Post],
+	guildActiveThreads: [RequestMethod.Get],
+	channelThreads: [RequestMethod.Get],
+	channelJoinedArchivedThreads: [RequestMethod.Get],
+	threadMembers: [RequestMethod.Get, RequestMethod.Put, RequestMethod.Delete],
+	user: [RequestMethod.Get, RequestMethod.Patch],
+	userApplicationRoleConnection: [RequestMethod.Get, RequestMethod.Put],
+	userGuilds: [RequestMethod.Get],
+	userGuildMember: [RequestMethod.Get],
+	userGuild: [RequestMethod.Delete],
+	userChannels: [RequestMethod.Post],
+	userConnections: [RequestMethod.Get],
+	voiceRegions: [RequestMethod.Get],
+	channelWebhooks: [RequestMethod.Get, RequestMethod.Post],
+	guildWebhooks: [RequestMethod.Get],
+	webhook: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete, RequestMethod.Post],
+	webhookMessage: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	webhookPlatform: [RequestMethod.Post],
+	gateway: [RequestMethod.Get],
+	gatewayBot: [RequestMethod.Get],
+	oauth2CurrentApplication: [RequestMethod.Get],
+	oauth2CurrentAuthorization: [RequestMethod.Get],
+	oauth2Authorization: [RequestMethod.Get],
+	oauth2TokenExchange: [RequestMethod.Post],
+	oauth2TokenRevocation: [RequestMethod.Post],
+	applicationCommands: [RequestMethod.Get, RequestMethod.Put, RequestMethod.Post],
+	applicationCommand: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	applicationGuildCommands: [RequestMethod.Get, RequestMethod.Put, RequestMethod.Post],
+	applicationGuildCommand: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	interactionCallback: [RequestMethod.Post],
+	guildMemberVerification: [RequestMethod.Get, RequestMethod.Patch],
+	guildVoiceState: [RequestMethod.Get, RequestMethod.Patch],
+	guildApplicationCommandsPermissions: [RequestMethod.Get, RequestMethod.Put],
+	applicationCommandPermissions: [RequestMethod.Get, RequestMethod.Put],
+	guildWelcomeScreen: [RequestMethod.Get, RequestMethod.Patch],
+	stageInstances: [RequestMethod.Post],
+	stageInstance: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	sticker: [RequestMethod.Get],
+	stickerPacks: [RequestMethod.Get],
+	stickerPack: [RequestMethod.Get],
+	nitroStickerPacks: [RequestMethod.Get],
+	guildStickers: [RequestMethod.Get, RequestMethod.Post],
+	guildSticker: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	guildScheduledEvents: [RequestMethod.Get, RequestMethod.Post],
+	guildScheduledEvent: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	guildScheduledEventUsers: [RequestMethod.Get],
+	guildOnboarding: [RequestMethod.Get, RequestMethod.Put],
+	currentApplication: [RequestMethod.Get, RequestMethod.Patch],
+	entitlements: [RequestMethod.Get, RequestMethod.Post],
+	entitlement: [RequestMethod.Get, RequestMethod.Delete],
+	skus: [RequestMethod.Get],
+	guildBulkBan: [RequestMethod.Post],
+	consumeEntitlement: [RequestMethod.Post],
+	applicationEmojis: [RequestMethod.Get, RequestMethod.Post],
+	applicationEmoji: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+	skuSubscriptions: [RequestMethod.Get],
+	skuSubscription: [RequestMethod.Get],
+	sendSoundboardSound: [RequestMethod.Post],
+	soundboardDefaultSounds: [RequestMethod.Get],
+	guildSoundboardSounds: [RequestMethod.Get, RequestMethod.Post],
+	guildSoundboardSound: [RequestMethod.Get, RequestMethod.Patch, RequestMethod.Delete],
+} as const satisfies { [Route in keyof typeof Routes]: readonly RequestMethod[] };
+
+// Freeze the object so it can't be changed
+Object.freeze(RouteMethods);
+
+/**
+ * The types a single request to a route takes and returns
+ */
+export interface RESTRouteDefinition {
+	/**
+	 * The query string parameters of the request
+	 */
+	query?: unknown;
+	/**
+	 * The JSON body of the request
+	 */
+	json?: unknown;
+	/**
+	 * The multipart form data body of the request, for routes that support uploading files
+	 */
+	formData?: unknown;
+	/**
+	 * The URL encoded body of the request, for the OAuth2 token routes
+	 */
+	urlEncoded?: unknown;
+	/**
+	 * The response body of the request, `never` for routes that respond with `204 No Content` or a redirect
+	 */
+	result: unknown;
+}
+
+/**
+ * The request and response types of every method of every {@link Routes} route
+ *
+ * Routes whose path changes with their arguments (for instance {@link Routes.webhook} with and without a token) list
+ * a union of every variant's types
+ */
+export interface RESTRouteTypes {
+	applicationRoleConnectionMetadata: {
+		[RequestMethod.Get]: { result: RESTGetAPIApplicationRoleConnectionMetadataResult };
+		[RequestMethod.Put]: {
+			json: RESTPutAPIApplicationRoleConnectionMetadataJSONBody;
+			result: RESTPutAPIApplicationRoleConnectionMetadataResult;
+		};
+	};
+	guildAutoModerationRules: {
+		[RequestMethod.Get]: { result: RESTGetAPIAutoModerationRulesResult };
+		[RequestMethod.Post]: {
+			json: RESTPostAPIAutoModerationRuleJSONBody;
+			result: RESTPostAPIAutoModerationRuleResult;
+		};
+	};
+	guildAutoModerationRule: {
+		[RequestMethod.Get]: { result: RESTGetAPIAutoModerationRuleResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIAutoModerationRuleJSONBody;
+			result: RESTPatchAPIAutoModerationRuleResult;
+		};
+		[RequestMethod.Delete]: { result: RESTDeleteAPIAutoModerationRuleResult };
+	};
+	guildAuditLog: {
+		[RequestMethod.Get]: { query: RESTGetAPIAuditLogQuery; result: RESTGetAPIAuditLogResult };
+	};
+	channel: {
+		[RequestMethod.Get]: { result: RESTGetAPIChannelResult };
+		[RequestMethod.Patch]: { json: RESTPatchAPIChannelJSONBody; result: RESTPatchAPIChannelResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelResult };
+	};
+	channelMessages: {
+		[RequestMethod.Get]: { query: RESTGetAPIChannelMessagesQuery; result: RESTGetAPIChannelMessagesResult };
+		[RequestMethod.Post]: {
+			json: RESTPostAPIChannelMessageJSONBody;
+			formData: RESTPostAPIChannelMessageFormDataBody;
+			result: RESTPostAPIChannelMessageResult;
+		};
+	};
+	channelMessage: {
+		[RequestMethod.Get]: { result: RESTGetAPIChannelMessageResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIChannelMessageJSONBody;
+			formData: RESTPatchAPIChannelMessageFormDataBody;
+			result: RESTPatchAPIChannelMessageResult;
+		};
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelMessageResult };
+	};
+	channelMessageCrosspost: {
+		[RequestMethod.Post]: { result: RESTPostAPIChannelMessageCrosspostResult };
+	};
+	channelMessageOwnReaction: {
+		[RequestMethod.Put]: { result: RESTPutAPIChannelMessageReactionResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelMessageOwnReactionResult };
+	};
+	channelMessageUserReaction: {
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelMessageUserReactionResult };
+	};
+	channelMessageReaction: {
+		[RequestMethod.Get]: {
+			query: RESTGetAPIChannelMessageReactionUsersQuery;
+			result: RESTGetAPIChannelMessageReactionUsersResult;
+		};
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelMessageReactionResult };
+	};
+	channelMessageAllReactions: {
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelAllMessageReactionsResult };
+	};
+	channelBulkDelete: {
+		[RequestMethod.Post]: {
+			json: RESTPostAPIChannelMessagesBulkDeleteJSONBody;
+			result: RESTPostAPIChannelMessagesBulkDeleteResult;
+		};
+	};
+	channelPermission: {
+		[RequestMethod.Put]: { json: RESTPutAPIChannelPermissionJSONBody; result: RESTPutAPIChannelPermissionResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelPermissionResult };
+	};
+	channelInvites: {
+		[RequestMethod.Get]: { result: RESTGetAPIChannelInvitesResult };
+		[RequestMethod.Post]: { json: RESTPostAPIChannelInviteJSONBody; result: RESTPostAPIChannelInviteResult };
+	};
+	channelFollowers: {
+		[RequestMethod.Post]: { json: RESTPostAPIChannelFollowersJSONBody; result: RESTPostAPIChannelFollowersResult };
+	};
+	channelTyping: {
+		[RequestMethod.Post]: { result: RESTPostAPIChannelTypingResult };
+	};
+	channelPins: {
+		[RequestMethod.Get]: { result: RESTGetAPIChannelPinsResult };
+	};
+	channelPin: {
+		[RequestMethod.Put]: { result: RESTPutAPIChannelPinResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelPinResult };
+	};
+	channelRecipient: {
+		[RequestMethod.Put]: { json: RESTPutAPIChannelRecipientJSONBody; result: RESTPutAPIChannelRecipientResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelRecipientResult };
+	};
+	guildEmojis: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildEmojisResult };
+		[RequestMethod.Post]: { json: RESTPostAPIGuildEmojiJSONBody; result: RESTPostAPIGuildEmojiResult };
+	};
+	guildEmoji: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildEmojiResult };
+		[RequestMethod.Patch]: { json: RESTPatchAPIGuildEmojiJSONBody; result: RESTPatchAPIGuildEmojiResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildEmojiResult };
+	};
+	guilds: {
+		[RequestMethod.Post]: { json: RESTPostAPIGuildsJSONBody; result: RESTPostAPIGuildsResult };
+	};
+	guild: {
+		[RequestMethod.Get]: { query: RESTGetAPIGuildQuery; result: RESTGetAPIGuildResult };
+		[RequestMethod.Patch]: { json: RESTPatchAPIGuildJSONBody; result: RESTPatchAPIGuildResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildResult };
+	};
+	guildPreview: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildPreviewResult };
+	};
+	guildChannels: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildChannelsResult };
+		[RequestMethod.Post]: { json: RESTPostAPIGuildChannelJSONBody; result: RESTPostAPIGuildChannelResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIGuildChannelPositionsJSONBody;
+			result: RESTPatchAPIGuildChannelPositionsResult;
+		};
+	};
+	guildMember: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildMemberResult };
+		[RequestMethod.Put]: { json: RESTPutAPIGuildMemberJSONBody; result: RESTPutAPIGuildMemberResult };
+		[RequestMethod.Patch]:
+			| { json: RESTPatchAPICurrentGuildMemberJSONBody; result: RESTPatchAPIGuildMemberResult }
+			| { json: RESTPatchAPIGuildMemberJSONBody; result: RESTPatchAPIGuildMemberResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildMemberResult };
+	};
+	guildMembers: {
+		[RequestMethod.Get]: { query: RESTGetAPIGuildMembersQuery; result: RESTGetAPIGuildMembersResult };
+	};
+	guildMembersSearch: {
+		[RequestMethod.Get]: { query: RESTGetAPIGuildMembersSearchQuery; result: RESTGetAPIGuildMembersSearchResult };
+	};
+	guildCurrentMemberNickname: {
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPICurrentGuildMemberNicknameJSONBody;
+			result: RESTPatchAPICurrentGuildMemberNicknameResult;
+		};
+	};
+	guildMemberRole: {
+		[RequestMethod.Put]: { result: RESTPutAPIGuildMemberRoleResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildMemberRoleResult };
+	};
+	guildMFA: {
+		[RequestMethod.Post]: { json: RESTPostAPIGuildsMFAJSONBody; result: RESTPostAPIGuildsMFAResult };
+	};
+	guildBans: {
+		[RequestMethod.Get]: { query: RESTGetAPIGuildBansQuery; result: RESTGetAPIGuildBansResult };
+	};
+	guildBan: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildBanResult };
+		[RequestMethod.Put]: { json: RESTPutAPIGuildBanJSONBody; result: RESTPutAPIGuildBanResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildBanResult };
+	};
+	guildRoles: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildRolesResult };
+		[RequestMethod.Post]: { json: RESTPostAPIGuildRoleJSONBody; result: RESTPostAPIGuildRoleResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIGuildRolePositionsJSONBody;
+			result: RESTPatchAPIGuildRolePositionsResult;
+		};
+	};
+	guildRole: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildRoleResult };
+		[RequestMethod.Patch]: { json: RESTPatchAPIGuildRoleJSONBody; result: RESTPatchAPIGuildRoleResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildRoleResult };
+	};
+	guildPrune: {
+		[RequestMethod.Get]: { query: RESTGetAPIGuildPruneCountQuery; result: RESTGetAPIGuildPruneCountResult };
+		[RequestMethod.Post]: { json: RESTPostAPIGuildPruneJSONBody; result: RESTPostAPIGuildPruneResult };
+	};
+	guildVoiceRegions: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildVoiceRegionsResult };
+	};
+	guildInvites: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildInvitesResult };
+	};
+	guildIntegrations: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildIntegrationsResult };
+	};
+	guildIntegration: {
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildIntegrationResult };
+	};
+	guildWidgetSettings: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildWidgetSettingsResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIGuildWidgetSettingsJSONBody;
+			result: RESTPatchAPIGuildWidgetSettingsResult;
+		};
+	};
+	guildWidgetJSON: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildWidgetJSONResult };
+	};
+	guildVanityUrl: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildVanityUrlResult };
+	};
+	guildWidgetImage: {
+		[RequestMethod.Get]: { query: RESTGetAPIGuildWidgetImageQuery; result: RESTGetAPIGuildWidgetImageResult };
+	};
+	invite: {
+		[RequestMethod.Get]: { query: RESTGetAPIInviteQuery; result: RESTGetAPIInviteResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIInviteResult };
+	};
+	template: {
+		[RequestMethod.Get]: { result: RESTGetAPITemplateResult };
+		[RequestMethod.Post]: {
+			json: RESTPostAPITemplateCreateGuildJSONBody;
+			result: RESTPostAPITemplateCreateGuildResult;
+		};
+	};
+	guildTemplates: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildTemplatesResult };
+		[RequestMethod.Post]: { json: RESTPostAPIGuildTemplatesJSONBody; result: RESTPostAPIGuildTemplatesResult };
+	};
+	guildTemplate: {
+		[RequestMethod.Put]: { result: RESTPutAPIGuildTemplateSyncResult };
+		[RequestMethod.Patch]: { json: RESTPatchAPIGuildTemplateJSONBody; result: RESTPatchAPIGuildTemplateResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildTemplateResult };
+	};
+	pollAnswerVoters: {
+		[RequestMethod.Get]: { query: RESTGetAPIPollAnswerVotersQuery; result: RESTGetAPIPollAnswerVotersResult };
+	};
+	expirePoll: {
+		[RequestMethod.Post]: { result: RESTPostAPIPollExpireResult };
+	};
+	threads: {
+		[RequestMethod.Post]:
+			| {
+					json: RESTPostAPIGuildForumThreadsJSONBody;
+					formData: RESTPostAPIGuildForumThreadsFormDataBody;
+					result: RESTPostAPIChannelThreadsResult;
+			  }
+			| { json: RESTPostAPIChannelMessagesThreadsJSONBody; result: RESTPostAPIChannelMessagesThreadsResult }
+			| { json: RESTPostAPIChannelThreadsJSONBody; result: RESTPostAPIChannelThreadsResult };
+	};
+	guildActiveThreads: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildThreadsResult };
+	};
+	channelThreads: {
+		[RequestMethod.Get]:
+			| { query: RESTGetAPIChannelThreadsArchivedQuery; result: RESTGetAPIChannelThreadsArchivedPrivateResult }
+			| { query: RESTGetAPIChannelThreadsArchivedQuery; result: RESTGetAPIChannelThreadsArchivedPublicResult };
+	};
+	channelJoinedArchivedThreads: {
+		[RequestMethod.Get]: {
+			query: RESTGetAPIChannelThreadsArchivedQuery;
+			result: RESTGetAPIChannelUsersThreadsArchivedResult;
+		};
+	};
+	threadMembers: {
+		[RequestMethod.Get]:
+			| { query: RESTGetAPIChannelThreadMemberQuery; result: RESTGetAPIChannelThreadMemberResult }
+			| { query: RESTGetAPIChannelThreadMembersQuery; result: RESTGetAPIChannelThreadMembersResult };
+		[RequestMethod.Put]: { result: RESTPutAPIChannelThreadMembersResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIChannelThreadMembersResult };
+	};
+	user: {
+		[RequestMethod.Get]: { result: RESTGetAPICurrentUserResult } | { result: RESTGetAPIUserResult };
+		[RequestMethod.Patch]: { json: RESTPatchAPICurrentUserJSONBody; result: RESTPatchAPICurrentUserResult };
+	};
+	userApplicationRoleConnection: {
+		[RequestMethod.Get]: { result: RESTGetAPICurrentUserApplicationRoleConnectionResult };
+		[RequestMethod.Put]: {
+			json: RESTPutAPICurrentUserApplicationRoleConnectionJSONBody;
+			result: RESTPutAPICurrentUserApplicationRoleConnectionResult;
+		};
+	};
+	userGuilds: {
+		[RequestMethod.Get]: { query: RESTGetAPICurrentUserGuildsQuery; result: RESTGetAPICurrentUserGuildsResult };
+	};
+	userGuildMember: {
+		[RequestMethod.Get]: { result: RESTGetCurrentUserGuildMemberResult };
+	};
+	userGuild: {
+		[RequestMethod.Delete]: { result: RESTDeleteAPICurrentUserGuildResult };
+	};
+	userChannels: {
+		[RequestMethod.Post]: {
+			json: RESTPostAPICurrentUserCreateDMChannelJSONBody;
+			result: RESTPostAPICurrentUserCreateDMChannelResult;
+		};
+	};
+	userConnections: {
+		[RequestMethod.Get]: { result: RESTGetAPICurrentUserConnectionsResult };
+	};
+	voiceRegions: {
+		[RequestMethod.Get]: { result: RESTGetAPIVoiceRegionsResult };
+	};
+	channelWebhooks: {
+		[RequestMethod.Get]: { result: RESTGetAPIChannelWebhooksResult };
+		[RequestMethod.Post]: { json: RESTPostAPIChannelWebhookJSONBody; result: RESTPostAPIChannelWebhookResult };
+	};
+	guildWebhooks: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildWebhooksResult };
+	};
+	webhook: {
+		[RequestMethod.Get]: { result: RESTGetAPIWebhookResult } | { result: RESTGetAPIWebhookWithTokenResult };
+		[RequestMethod.Patch]:
+			| { json: RESTPatchAPIWebhookJSONBody; result: RESTPatchAPIWebhookResult }
+			| { json: RESTPatchAPIWebhookWithTokenJSONBody; result: RESTPatchAPIWebhookWithTokenResult };
+		[RequestMethod.Delete]:
+			| { result: RESTDeleteAPIWebhookResult }
+			| { result: RESTDeleteAPIWebhookWithTokenResult };
+		[RequestMethod.Post]:
+			| {
+					json: RESTPostAPIInteractionFollowupJSONBody;
+					formData: RESTPostAPIInteractionFollowupFormDataBody;
+					result: RESTPostAPIInteractionFollowupResult;
+			  }
+			| {
+					query: RESTPostAPIWebhookWithTokenQuery;
+					json: RESTPostAPIWebhookWithTokenJSONBody;
+					formData: RESTPostAPIWebhookWithTokenFormDataBody;
+					result: RESTPostAPIWebhookWithTokenResult | RESTPostAPIWebhookWithTokenWaitResult;
+			  };
+	};
+	webhookMessage: {
+		[RequestMethod.Get]: {
+			query: RESTGetAPIWebhookWithTokenMessageQuery;
+			result: RESTGetAPIWebhookWithTokenMessageResult;
+		};
+		[RequestMethod.Patch]:
+			| {
+					json: RESTPatchAPIInteractionFollowupJSONBody;
+					formData: RESTPatchAPIInteractionFollowupFormDataBody;
+					result: RESTPatchAPIInteractionFollowupResult;
+			  }
+			| {
+					json: RESTPatchAPIInteractionOriginalResponseJSONBody;
+					formData: RESTPatchAPIInteractionOriginalResponseFormDataBody;
+					result: RESTPatchAPIInteractionOriginalResponseResult;
+			  }
+			| {
+					json: RESTPatchAPIWebhookWithTokenMessageJSONBody;
+					formData: RESTPatchAPIWebhookWithTokenMessageFormDataBody;
+					result: RESTPatchAPIWebhookWithTokenMessageResult;
+			  };
+		[RequestMethod.Delete]:
+			| { result: RESTDeleteAPIInteractionFollowupResult }
+			| { result: RESTDeleteAPIWebhookWithTokenMessageResult };
+	};
+	webhookPlatform: {
+		[RequestMethod.Post]:
+			| {
+					query: RESTPostAPIWebhookWithTokenGitHubQuery;
+					result: RESTPostAPIWebhookWithTokenGitHubResult | RESTPostAPIWebhookWithTokenGitHubWaitResult;
+			  }
+			| {
+					query: RESTPostAPIWebhookWithTokenSlackQuery;
+					result: RESTPostAPIWebhookWithTokenSlackResult | RESTPostAPIWebhookWithTokenSlackWaitResult;
+			  };
+	};
+	gateway: {
+		[RequestMethod.Get]: { result: RESTGetAPIGatewayResult };
+	};
+	gatewayBot: {
+		[RequestMethod.Get]: { result: RESTGetAPIGatewayBotResult };
+	};
+	oauth2CurrentApplication: {
+		[RequestMethod.Get]: { result: RESTGetAPIOAuth2CurrentApplicationResult };
+	};
+	oauth2CurrentAuthorization: {
+		[RequestMethod.Get]: { result: RESTGetAPIOAuth2CurrentAuthorizationResult };
+	};
+	oauth2Authorization: {
+		[RequestMethod.Get]:
+			| { query: RESTOAuth2AdvancedBotAuthorizationQuery; result: never }
+			| { query: RESTOAuth2AuthorizationQuery; result: never }
+			| { query: RESTOAuth2BotAuthorizationQuery; result: never }
+			| { query: RESTOAuth2ImplicitAuthorizationQuery; result: never };
+	};
+	oauth2TokenExchange: {
+		[RequestMethod.Post]:
+			| {
+					urlEncoded: RESTPostOAuth2ClientCredentialsURLEncodedData;
+					result: RESTPostOAuth2ClientCredentialsResult;
+			  }
+			| { urlEncoded: RESTPostOAuth2AccessTokenURLEncodedData; result: RESTPostOAuth2AccessTokenResult }
+			| { urlEncoded: RESTPostOAuth2RefreshTokenURLEncodedData; result: RESTPostOAuth2RefreshTokenResult };
+	};
+	oauth2TokenRevocation: {
+		[RequestMethod.Post]: { urlEncoded: RESTPostOAuth2TokenRevocationQuery; result: never };
+	};
+	applicationCommands: {
+		[RequestMethod.Get]: { query: RESTGetAPIApplicationCommandsQuery; result: RESTGetAPIApplicationCommandsResult };
+		[RequestMethod.Put]: {
+			json: RESTPutAPIApplicationCommandsJSONBody;
+			result: RESTPutAPIApplicationCommandsResult;
+		};
+		[RequestMethod.Post]: {
+			json: RESTPostAPIApplicationCommandsJSONBody;
+			result: RESTPostAPIApplicationCommandsResult;
+		};
+	};
+	applicationCommand: {
+		[RequestMethod.Get]: { result: RESTGetAPIApplicationCommandResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIApplicationCommandJSONBody;
+			result: RESTPatchAPIApplicationCommandResult;
+		};
+		[RequestMethod.Delete]: { result: never };
+	};
+	applicationGuildCommands: {
+		[RequestMethod.Get]: {
+			query: RESTGetAPIApplicationGuildCommandsQuery;
+			result: RESTGetAPIApplicationGuildCommandsResult;
+		};
+		[RequestMethod.Put]: {
+			json: RESTPutAPIApplicationGuildCommandsJSONBody;
+			result: RESTPutAPIApplicationGuildCommandsResult;
+		};
+		[RequestMethod.Post]: {
+			json: RESTPostAPIApplicationGuildCommandsJSONBody;
+			result: RESTPostAPIApplicationGuildCommandsResult;
+		};
+	};
+	applicationGuildCommand: {
+		[RequestMethod.Get]: { result: RESTGetAPIApplicationGuildCommandResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIApplicationGuildCommandJSONBody;
+			result: RESTPatchAPIApplicationGuildCommandResult;
+		};
+		[RequestMethod.Delete]: { result: never };
+	};
+	interactionCallback: {
+		[RequestMethod.Post]: {
+			query: RESTPostAPIInteractionCallbackQuery;
+			json: RESTPostAPIInteractionCallbackJSONBody;
+			formData: RESTPostAPIInteractionCallbackFormDataBody;
+			result: RESTPostAPIInteractionCallbackResult | RESTPostAPIInteractionCallbackWithResponseResult;
+		};
+	};
+	guildMemberVerification: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildMemberVerificationResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIGuildMemberVerificationJSONBody;
+			result: RESTPatchAPIGuildMemberVerificationResult;
+		};
+	};
+	guildVoiceState: {
+		[RequestMethod.Get]:
+			| { result: RESTGetAPIGuildVoiceStateCurrentMemberResult }
+			| { result: RESTGetAPIGuildVoiceStateUserResult };
+		[RequestMethod.Patch]:
+			| {
+					json: RESTPatchAPIGuildVoiceStateCurrentMemberJSONBody;
+					result: RESTPatchAPIGuildVoiceStateCurrentMemberResult;
+			  }
+			| { json: RESTPatchAPIGuildVoiceStateUserJSONBody; result: RESTPatchAPIGuildVoiceStateUserResult };
+	};
+	guildApplicationCommandsPermissions: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildApplicationCommandsPermissionsResult };
+		[RequestMethod.Put]: {
+			json: RESTPutAPIGuildApplicationCommandsPermissionsJSONBody;
+			result: RESTPutAPIGuildApplicationCommandsPermissionsResult;
+		};
+	};
+	applicationCommandPermissions: {
+		[RequestMethod.Get]: { result: RESTGetAPIApplicationCommandPermissionsResult };
+		[RequestMethod.Put]: {
+			json: RESTPutAPIApplicationCommandPermissionsJSONBody;
+			result: RESTPutAPIApplicationCommandPermissionsResult;
+		};
+	};
+	guildWelcomeScreen: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildWelcomeScreenResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIGuildWelcomeScreenJSONBody;
+			result: RESTPatchAPIGuildWelcomeScreenResult;
+		};
+	};
+	stageInstances: {
+		[RequestMethod.Post]: { json: RESTPostAPIStageInstanceJSONBody; result: RESTPostAPIStageInstanceResult };
+	};
+	stageInstance: {
+		[RequestMethod.Get]: { result: RESTGetAPIStageInstanceResult };
+		[RequestMethod.Patch]: { json: RESTPatchAPIStageInstanceJSONBody; result: RESTPatchAPIStageInstanceResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIStageInstanceResult };
+	};
+	sticker: {
+		[RequestMethod.Get]: { result: RESTGetAPIStickerResult };
+	};
+	stickerPacks: {
+		[RequestMethod.Get]: { result: RESTGetStickerPacksResult };
+	};
+	stickerPack: {
+		[RequestMethod.Get]: { result: RESTGetAPIStickerPackResult };
+	};
+	nitroStickerPacks: {
+		[RequestMethod.Get]: { result: RESTGetNitroStickerPacksResult };
+	};
+	guildStickers: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildStickersResult };
+		[RequestMethod.Post]: { formData: RESTPostAPIGuildStickerFormDataBody; result: RESTPostAPIGuildStickerResult };
+	};
+	guildSticker: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildStickerResult };
+		[RequestMethod.Patch]: { json: RESTPatchAPIGuildStickerJSONBody; result: RESTPatchAPIGuildStickerResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildStickerResult };
+	};
+	guildScheduledEvents: {
+		[RequestMethod.Get]: {
+			query: RESTGetAPIGuildScheduledEventsQuery;
+			result: RESTGetAPIGuildScheduledEventsResult;
+		};
+		[RequestMethod.Post]: {
+			json: RESTPostAPIGuildScheduledEventJSONBody;
+			result: RESTPostAPIGuildScheduledEventResult;
+		};
+	};
+	guildScheduledEvent: {
+		[RequestMethod.Get]: { query: RESTGetAPIGuildScheduledEventQuery; result: RESTGetAPIGuildScheduledEventResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIGuildScheduledEventJSONBody;
+			result: RESTPatchAPIGuildScheduledEventResult;
+		};
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildScheduledEventResult };
+	};
+	guildScheduledEventUsers: {
+		[RequestMethod.Get]: {
+			query: RESTGetAPIGuildScheduledEventUsersQuery;
+			result: RESTGetAPIGuildScheduledEventUsersResult;
+		};
+	};
+	guildOnboarding: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildOnboardingResult };
+		[RequestMethod.Put]: { json: RESTPutAPIGuildOnboardingJSONBody; result: RESTPutAPIGuildOnboardingResult };
+	};
+	currentApplication: {
+		[RequestMethod.Get]: { result: RESTGetCurrentApplicationResult };
+		[RequestMethod.Patch]: { json: RESTPatchCurrentApplicationJSONBody; result: RESTPatchCurrentApplicationResult };
+	};
+	entitlements: {
+		[RequestMethod.Get]: { query: RESTGetAPIEntitlementsQuery; result: RESTGetAPIEntitlementsResult };
+		[RequestMethod.Post]: { json: RESTPostAPIEntitlementJSONBody; result: RESTPostAPIEntitlementResult };
+	};
+	entitlement: {
+		[RequestMethod.Get]: { result: RESTGetAPIEntitlementResult };
+		[RequestMethod.Delete]: { result: RESTDeleteAPIEntitlementResult };
+	};
+	skus: {
+		[RequestMethod.Get]: { result: RESTGetAPISKUsResult };
+	};
+	guildBulkBan: {
+		[RequestMethod.Post]: { json: RESTPostAPIGuildBulkBanJSONBody; result: RESTPostAPIGuildBulkBanResult };
+	};
+	consumeEntitlement: {
+		[RequestMethod.Post]: { result: RESTPostAPIEntitlementConsumeResult };
+	};
+	applicationEmojis: {
+		[RequestMethod.Get]: { result: RESTGetAPIApplicationEmojisResult };
+		[RequestMethod.Post]: { json: RESTPostAPIApplicationEmojiJSONBody; result: RESTPostAPIApplicationEmojiResult };
+	};
+	applicationEmoji: {
+		[RequestMethod.Get]: { result: RESTGetAPIApplicationEmojiResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIApplicationEmojiJSONBody;
+			result: RESTPatchAPIApplicationEmojiResult;
+		};
+		[RequestMethod.Delete]: { result: RESTDeleteAPIApplicationEmojiResult };
+	};
+	skuSubscriptions: {
+		[RequestMethod.Get]: { query: RESTGetAPISKUSubscriptionsQuery; result: RESTGetAPISKUSubscriptionsResult };
+	};
+	skuSubscription: {
+		[RequestMethod.Get]: { result: RESTGetAPISKUSubscriptionResult };
+	};
+	sendSoundboardSound: {
+		[RequestMethod.Post]: {
+			json: RESTPostAPISoundboardSendSoundJSONBody;
+			result: RESTPostAPISendSoundboardSoundResult;
+		};
+	};
+	soundboardDefaultSounds: {
+		[RequestMethod.Get]: { result: RESTGetAPISoundboardDefaultSoundsResult };
+	};
+	guildSoundboardSounds: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildSoundboardSoundsResult };
+		[RequestMethod.Post]: {
+			json: RESTPostAPIGuildSoundboardSoundJSONBody;
+			result: RESTPostAPIGuildSoundboardSoundResult;
+		};
+	};
+	guildSoundboardSound: {
+		[RequestMethod.Get]: { result: RESTGetAPIGuildSoundboardSoundResult };
+		[RequestMethod.Patch]: {
+			json: RESTPatchAPIGuildSoundboardSoundJSONBody;
+			result: RESTPatchAPIGuildSoundboardSoundResult;
+		};
+		[RequestMethod.Delete]: { result: RESTDeleteAPIGuildSoundboardSoundResult };
+	};
+}
+
+/**
+ * The HTTP methods supported by a {@link Routes} route
+ */
+export type RESTRouteMethod<Route extends keyof RESTRouteTypes> = RequestMethod & keyof RESTRouteTypes[Route];
+
+type DefinitionField<Definition, Field extends keyof RESTRouteDefinition> =
+	Definition extends {
+		[Key in Field]: infer Value;
+	} ?
+		Value
+	:	never;
+
+/**
+ * The query string parameters of a request to a {@link Routes} route, `never` if the route takes none
+ */
+export type RESTRouteQuery<Route extends keyof RESTRouteTypes, Method extends RESTRouteMethod<Route>> = DefinitionField<
+	RESTRouteTypes[Route][Method],
+	'query'
+>;
+
+/**
+ * The JSON body of a request to a {@link Routes} route, `never` if the route takes none
+ */
+export type RESTRouteJSONBody<
+	Route extends keyof RESTRouteTypes,
+	Method extends RESTRouteMethod<Route>,
+> = DefinitionField<RESTRouteTypes[Route][Method], 'json'>;
+
+/**
+ * The multipart form data body of a request to a {@link Routes} route, `never` if the route takes none
+ */
+export type RESTRouteFormDataBody<
+	Route extends keyof RESTRouteTypes,
+	Method extends RESTRouteMethod<Route>,
+> = DefinitionField<RESTRouteTypes[Route][Method], 'formData'>;
+
+/**
+ * The URL encoded body of a request to a {@link Routes} route, `never` if the route takes none
+ */
+export type RESTRouteURLEncodedBody<
+	Route extends keyof RESTRouteTypes,
+	Method extends RESTRouteMethod<Route>,
+> = DefinitionField<RESTRouteTypes[Route][Method], 'urlEncoded'>;
+
+/**
+ * The response body of a request to a {@link Routes} route
+ */
+export type RESTRouteResult<
+	Route extends keyof RESTRouteTypes,
+	Method extends RESTRouteMethod<Route>,
+> = DefinitionField<RESTRouteTypes[Route][Method], 'result'>;
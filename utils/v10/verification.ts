@@ -0,0 +1,152 @@
+import type { APIInteraction, APIWebhookEvent } from '../../payloads/v10/index';
+import { getHeader, type HeadersLike } from '../common/headers';
+
+/**
+ * The options used to verify the signature of a request sent by Discord
+ */
+export interface RequestVerificationOptions {
+	/**
+	 * The number of seconds a request stays valid for after it was signed, to prevent replay attacks
+	 *
+	 * @defaultValue `300`
+	 */
+	maxAge?: number;
+	/**
+	 * The Unix timestamp (in milliseconds) to check the age of the request against
+	 *
+	 * @defaultValue `Date.now()`
+	 */
+	now?: number;
+}
+
+const DefaultMaxAge = 300;
+
+const Ed25519 = { name: 'Ed25519' };
+
+const publicKeys = new Map<string, ReturnType<typeof crypto.subtle.importKey>>();
+
+function hexToBytes(hex: string): Uint8Array | null {
+	if (hex.length % 2 !== 0 || !/^[\da-f]*$/i.test(hex)) return null;
+
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let index = 0; index < bytes.length; index++) {
+		bytes[index] = Number.parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+	}
+
+	return bytes;
+}
+
+async function importPublicKey(publicKey: string, bytes: Uint8Array) {
+	let key = publicKeys.get(publicKey);
+
+	if (!key) {
+		key = crypto.subtle.importKey('raw', bytes, Ed25519, false, ['verify']);
+		publicKeys.set(publicKey, key);
+	}
+
+	return key;
+}
+
+/**
+ * Verifies the Ed25519 signature of a request sent by Discord, and that it was signed recently enough
+ *
+ * This uses the WebCrypto API, which is available in Node.js, Deno, browsers and edge runtimes
+ *
+ * See https://discord.com/developers/docs/interactions/overview#setting-up-an-endpoint-validating-security-request-headers
+ *
+ * @param body The raw body of the request, as received
+ * @param signature The value of the `X-Signature-Ed25519` header
+ * @param timestamp The value of the `X-Signature-Timestamp` header
+ * @param publicKey The public key of the application, as shown in the developer portal
+ * @param options The options to verify the request with
+ * @returns Whether the request was signed by Discord within the replay window
+ */
+export async function verifyRequestSignature(
+	body: Uint8Array | string,
+	signature: string,
+	timestamp: string,
+	publicKey: string,
+	options: RequestVerificationOptions = {},
+): Promise<boolean> {
+	const { maxAge = DefaultMaxAge, now = Date.now() } = options;
+	const signedAt = Number(timestamp);
+	if (!/^\d+$/.test(timestamp) || Math.abs(now / 1_000 - signedAt) > maxAge) return false;
+
+	const signatureBytes = hexToBytes(signature);
+	const publicKeyBytes = hexToBytes(publicKey);
+	if (!signatureBytes || !publicKeyBytes) return false;
+
+	// eslint-disable-next-line n/prefer-global/text-encoder
+	const encoder = new TextEncoder();
+	const bodyBytes = typeof body === 'string' ? encoder.encode(body) : body;
+	const timestampBytes = encoder.encode(timestamp);
+
+	const message = new Uint8Array(timestampBytes.length + bodyBytes.length);
+	message.set(timestampBytes);
+	message.set(bodyBytes, timestampBytes.length);
+
+	try {
+		const key = await importPublicKey(publicKey, publicKeyBytes);
+		return await crypto.subtle.verify(Ed25519, key, signatureBytes, message);
+	} catch {
+		publicKeys.delete(publicKey);
+		return false;
+	}
+}
+
+async function verifyRequest(
+	body: Uint8Array | string,
+	headers: HeadersLike,
+	publicKey: string,
+	options: RequestVerificationOptions | undefined,
+): Promise<unknown> {
+	const signature = getHeader(headers, 'x-signature-ed25519');
+	const timestamp = getHeader(headers, 'x-signature-timestamp');
+	if (signature === null || timestamp === null) return null;
+
+	if (!(await verifyRequestSignature(body, signature, timestamp, publicKey, options))) return null;
+
+	// eslint-disable-next-line n/prefer-global/text-decoder
+	return JSON.parse(typeof body === 'string' ? body : new TextDecoder().decode(body));
+}
+
+/**
+ * Verifies the signature of an interaction received over HTTP and parses it
+ *
+ * @example
+ * ```ts
+ * const interaction = await verifyInteractionRequest(await request.text(), request.headers, publicKey);
+ * if (!interaction) return new Response('Invalid request signature', { status: 401 });
+ * ```
+ * @param body The raw body of the request, as received
+ * @param headers The headers of the request
+ * @param publicKey The public key of the application, as shown in the developer portal
+ * @param options The options to verify the request with
+ * @returns The interaction, or `null` if the request is not signed by Discord or is outside the replay window
+ */
+export async function verifyInteractionRequest(
+	body: Uint8Array | string,
+	headers: HeadersLike,
+	publicKey: string,
+	options?: RequestVerificationOptions,
+): Promise<APIInteraction | null> {
+	return (await verifyRequest(body, headers, publicKey, options)) as APIInteraction | null;
+}
+
+/**
+ * Verifies the signature of a webhook event received over HTTP and parses it
+ *
+ * @param body The raw body of the request, as received
+ * @param headers The headers of the request
+ * @param publicKey The public key of the application, as shown in the developer portal
+ * @param options The options to verify the request with
+ * @returns The webhook event, or `null` if the request is not signed by Discord or is outside the replay window
+ */
+export async function verifyWebhookEventRequest(
+	body: Uint8Array | string,
+	headers: HeadersLike,
+	publicKey: string,
+	options?: RequestVerificationOptions,
+): Promise<APIWebhookEvent | null> {
+	return (await verifyRequest(body, headers, publicKey, options)) as APIWebhookEvent | null;
+}
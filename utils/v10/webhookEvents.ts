@@ -0,0 +1,187 @@
+import type { APIWebhookEvent, APIWebhookEventBody } from '../../payloads/v10/index';
+import { ApplicationWebhookEventType, ApplicationWebhookType } from '../../payloads/v10/index';
+
+/**
+ * The body of a webhook event of a specific type
+ */
+export type APIWebhookEventBodyFor<Type extends ApplicationWebhookEventType> = Extract<
+	APIWebhookEventBody,
+	{ type: Type }
+>;
+
+/**
+ * A function handling a webhook event of a specific type
+ *
+ * @param data The data of the event, narrowed to its type
+ * @param event The body of the event, holding its type and timestamp
+ * @param payload The whole webhook event payload, holding the id of the application
+ */
+export type ApplicationWebhookEventHandler<Type extends ApplicationWebhookEventType> = (
+	data: APIWebhookEventBodyFor<Type>['data'],
+	event: APIWebhookEventBodyFor<Type>,
+	payload: APIWebhookEvent,
+) => Promise<void> | void;
+
+/**
+ * The handlers of a webhook event dispatcher, keyed by the event type they handle
+ */
+export type ApplicationWebhookEventHandlers = {
+	[Type in ApplicationWebhookEventType]?: ApplicationWebhookEventHandler<Type>;
+};
+
+/**
+ * The outcome of dispatching a webhook event
+ */
+export interface ApplicationWebhookEventDispatchResult {
+	/**
+	 * The HTTP status code to respond to Discord with, as Discord expects an empty `204` response to every webhook event
+	 */
+	status: 204;
+	/**
+	 * Whether a handler was called for the event, which is never the case for `PING` events
+	 */
+	handled: boolean;
+}
+
+/**
+ * A function dispatching a webhook event to its handler
+ */
+export type ApplicationWebhookEventDispatcher = (
+	payload: APIWebhookEvent,
+) => Promise<ApplicationWebhookEventDispatchResult>;
+
+/**
+ * Creates a function routing each webhook event to the handler of its type, with its `data` narrowed accordingly
+ *
+ * `PING` events are answered automatically, and events without a handler are acknowledged without doing anything
+ *
+ * @example
+ * ```ts
+ * const dispatch = createApplicationWebhookEventDispatcher({
+ * 	[ApplicationWebhookEventType.EntitlementCreate]: (entitlement) => grantPremium(entitlement.user_id),
+ * });
+ *
+ * const event = await verifyWebhookEventRequest(body, headers, publicKey);
+ * if (!event) return new Response(null, { status: 401 });
+ *
+ * const { status } = await dispatch(event);
+ * return new Response(null, { status });
+ * ```
+ * @param handlers The handlers of each event type
+ */
+export function createApplicationWebhookEventDispatcher(
+	handlers: ApplicationWebhookEventHandlers,
+): ApplicationWebhookEventDispatcher {
+	return async (payload) => {
+		if (payload.type === ApplicationWebhookType.Ping) return { status: 204, handled: false };
+
+		const handler = handlers[payload.event.type] as
+			| ApplicationWebhookEventHandler<ApplicationWebhookEventType>
+			| undefined;
+		if (!handler) return { status: 204, handled: false };
+
+		await handler(payload.event.data, payload.event, payload);
+		return { status: 204, handled: true };
+	};
+}
+
+/**
+ * A webhook event replayed by an {@link ApplicationWebhookEventHarness}, along with the outcome of its dispatch
+ */
+export interface ApplicationWebhookEventHarnessEntry {
+	/**
+	 * The webhook event that was dispatched
+	 */
+	payload: APIWebhookEvent;
+	/**
+	 * The outcome of the dispatch
+	 */
+	result: ApplicationWebhookEventDispatchResult;
+}
+
+/**
+ * An in-memory harness to test webhook event handlers without receiving requests from Discord
+ */
+export interface ApplicationWebhookEventHarness {
+	/**
+	 * Every webhook event replayed so far, in order
+	 */
+	readonly entries: readonly ApplicationWebhookEventHarnessEntry[];
+	/**
+	 * Dispatches recorded webhook events one after the other
+	 *
+	 * @param bodies The recorded events, either as their raw JSON body or already parsed
+	 * @returns The outcome of dispatching each event
+	 * @throws {RangeError} If an event is not valid JSON, or is not shaped like a webhook event
+	 */
+	replay(bodies: Iterable<APIWebhookEvent | string>): Promise<ApplicationWebhookEventDispatchResult[]>;
+}
+
+const WebhookTypes = new Set<unknown>(Object.values(ApplicationWebhookType).filter((type) => typeof type === 'number'));
+
+const WebhookEventTypes = new Set<unknown>(Object.values(ApplicationWebhookEventType));
+
+function isWebhookEvent(payload: unknown): payload is APIWebhookEvent {
+	if (typeof payload !== 'object' || payload === null) return false;
+
+	const { version, type, event } = payload as Record<string, unknown>;
+	if (version !== 1 || !WebhookTypes.has(type)) return false;
+
+	return (
+		type === ApplicationWebhookType.Ping ||
+		(typeof event === 'object' && event !== null && WebhookEventTypes.has((event as Record<string, unknown>).type))
+	);
+}
+
+function parseWebhookEvent(body: APIWebhookEvent | string, index: number): APIWebhookEvent {
+	let payload: unknown = body;
+
+	if (typeof body === 'string') {
+		try {
+			payload = JSON.parse(body);
+		} catch {
+			throw new RangeError(`The webhook event at index ${index} is not valid JSON`);
+		}
+	}
+
+	if (!isWebhookEvent(payload)) {
+		throw new RangeError(`The webhook event at index ${index} does not have a known version, type and event type`);
+	}
+
+	return payload;
+}
+
+/**
+ * Creates an in-memory harness replaying recorded webhook events through a dispatcher built from the given handlers
+ *
+ * @example
+ * ```ts
+ * const harness = createApplicationWebhookEventHarness(handlers);
+ * await harness.replay([readFileSync('fixtures/entitlement-create.json', 'utf8')]);
+ * // => [{ status: 204, handled: true }]
+ * ```
+ * @param handlers The handlers of each event type
+ */
+export function createApplicationWebhookEventHarness(
+	handlers: ApplicationWebhookEventHandlers,
+): ApplicationWebhookEventHarness {
+	const dispatch = createApplicationWebhookEventDispatcher(handlers);
+	const entries: ApplicationWebhookEventHarnessEntry[] = [];
+
+	return {
+		entries,
+		async replay(bodies) {
+			const results: ApplicationWebhookEventDispatchResult[] = [];
+
+			for (const body of bodies) {
+				const payload = parseWebhookEvent(body, results.length);
+				const result = await dispatch(payload);
+
+				entries.push({ payload, result });
+				results.push(result);
+			}
+
+			return results;
+		},
+	};
+}
@@ -18,6 +18,8 @@ import type {
 } from '../payloads/v9/index';
 import { ApplicationCommandType, ButtonStyle, ComponentType, InteractionType } from '../payloads/v9/index';
 
+export * from './common/index';
+
 // Interactions
 
 /**
@@ -0,0 +1,764 @@
+/**
+ * Types extracted from https://discord.com/developers/docs/topics/voice-connections
+ */
+
+import type { Snowflake } from '../globals';
+
+export const VoiceGatewayVersion = '8';
+
+/**
+ * https://discord.com/developers/docs/topics/opcodes-and-status-codes#voice-voice-opcodes
+ */
+export enum VoiceOpcodes {
+	/**
+	 * Begin a voice websocket connection
+	 */
+	Identify,
+	/**
+	 * Select the voice protocol
+	 */
+	SelectProtocol,
+	/**
+	 * Complete the websocket handshake
+	 */
+	Ready,
+	/**
+	 * Keep the websocket connection alive
+	 */
+	Heartbeat,
+	/**
+	 * Describe the session
+	 */
+	SessionDescription,
+	/**
+	 * Indicate which users are speaking
+	 */
+	Speaking,
+	/**
+	 * Sent to acknowledge a received client heartbeat
+	 */
+	HeartbeatAck,
+	/**
+	 * Resume a connection
+	 */
+	Resume,
+	/**
+	 * Time to wait between sending heartbeats in milliseconds
+	 */
+	Hello,
+	/**
+	 * Acknowledge a successful session resume
+	 */
+	Resumed,
+	/**
+	 * One or more clients have connected to the voice channel
+	 */
+	ClientsConnect = 11,
+	/**
+	 * A client has disconnected from the voice channel
+	 */
+	ClientDisconnect = 13,
+	/**
+	 * A downgrade from the DAVE protocol is upcoming
+	 */
+	DavePrepareTransition = 21,
+	/**
+	 * Execute a previously announced protocol transition
+	 */
+	DaveExecuteTransition,
+	/**
+	 * Acknowledge readiness of a previously announced transition
+	 */
+	DaveTransitionReady,
+	/**
+	 * A DAVE protocol version or group change is upcoming
+	 */
+	DavePrepareEpoch,
+	/**
+	 * Credential and public key for MLS external sender
+	 *
+	 * This opcode is sent as a binary message
+	 */
+	DaveMlsExternalSender,
+	/**
+	 * MLS Key Package for pending group member
+	 *
+	 * This opcode is sent as a binary message
+	 */
+	DaveMlsKeyPackage,
+	/**
+	 * MLS Proposals to be appended or revoked
+	 *
+	 * This opcode is sent as a binary message
+	 */
+	DaveMlsProposals,
+	/**
+	 * MLS Commit with optional MLS Welcome messages
+	 *
+	 * This opcode is sent as a binary message
+	 */
+	DaveMlsCommitWelcome,
+	/**
+	 * MLS Commit to be processed for upcoming transition
+	 *
+	 * This opcode is sent as a binary message
+	 */
+	DaveMlsAnnounceCommitTransition,
+	/**
+	 * MLS Welcome to group for upcoming transition
+	 *
+	 * This opcode is sent as a binary message
+	 */
+	DaveMlsWelcome,
+	/**
+	 * Flag invalid commit or welcome, request re-add
+	 */
+	DaveMlsInvalidCommitWelcome,
+}
+
+/**
+ * https://discord.com/developers/docs/topics/opcodes-and-status-codes#voice-voice-close-event-codes
+ */
+export enum VoiceCloseCodes {
+	/**
+	 * You sent an invalid opcode
+	 */
+	UnknownOpcode = 4_001,
+	/**
+	 * You sent a invalid payload in your identifying to the Gateway
+	 */
+	FailedToDecode,
+	/**
+	 * You sent a payload before identifying with the Gateway
+	 */
+	NotAuthenticated,
+	/**
+	 * The token you sent in your identify payload is incorrect
+	 */
+	AuthenticationFailed,
+	/**
+	 * You sent more than one identify payload. Stahp
+	 */
+	AlreadyAuthenticated,
+	/**
+	 * Your session is no longer valid
+	 */
+	SessionNoLongerValid,
+	/**
+	 * Your session has timed out
+	 */
+	SessionTimeout = 4_009,
+	/**
+	 * We can't find the server you're trying to connect to
+	 */
+	ServerNotFound = 4_011,
+	/**
+	 * We didn't recognize the protocol you sent
+	 */
+	UnknownProtocol,
+	/**
+	 * Either the channel was deleted, you were kicked, or the main gateway session was dropped. Should not reconnect
+	 */
+	Disconnected = 4_014,
+	/**
+	 * The server crashed. Our bad! Try resuming
+	 */
+	VoiceServerCrashed,
+	/**
+	 * We didn't recognize your encryption
+	 */
+	UnknownEncryptionMode,
+	/**
+	 * Your client must support and negotiate the DAVE protocol to connect to this channel
+	 */
+	E2EEDAVEProtocolRequired,
+	/**
+	 * You sent a malformed request
+	 */
+	BadRequest = 4_020,
+	/**
+	 * Disconnect due to rate limit exceeded. Should not reconnect
+	 */
+	RateLimited,
+	/**
+	 * Disconnect all clients due to call terminated (channel deleted, voice server changed, etc.). Should not reconnect
+	 */
+	CallTerminated,
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#transport-encryption-modes
+ */
+export enum VoiceEncryptionMode {
+	/**
+	 * AEAD AES256-GCM (RTP Size)
+	 */
+	AeadAes256GcmRtpSize = 'aead_aes256_gcm_rtpsize',
+	/**
+	 * AEAD XChaCha20 Poly1305 (RTP Size)
+	 */
+	AeadXChaCha20Poly1305RtpSize = 'aead_xchacha20_poly1305_rtpsize',
+	/**
+	 * XSalsa20 Poly1305 Lite (RTP Size)
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	XSalsa20Poly1305LiteRtpSize = 'xsalsa20_poly1305_lite_rtpsize',
+	/**
+	 * AEAD AES256-GCM
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	AeadAes256Gcm = 'aead_aes256_gcm',
+	/**
+	 * XSalsa20 Poly1305
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	XSalsa20Poly1305 = 'xsalsa20_poly1305',
+	/**
+	 * XSalsa20 Poly1305 Suffix
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	XSalsa20Poly1305Suffix = 'xsalsa20_poly1305_suffix',
+	/**
+	 * XSalsa20 Poly1305 Lite
+	 *
+	 * @deprecated This encryption mode has been deprecated by Discord
+	 */
+	XSalsa20Poly1305Lite = 'xsalsa20_poly1305_lite',
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export enum VoiceSpeakingFlags {
+	/**
+	 * Normal transmission of voice audio
+	 */
+	Microphone = 1 << 0,
+	/**
+	 * Transmission of context audio for video, no speaking indicator
+	 */
+	Soundshare = 1 << 1,
+	/**
+	 * Priority speaker, lowering audio of other speakers
+	 */
+	Priority = 1 << 2,
+}
+
+export type VoiceSendPayload =
+	| VoiceDaveMlsInvalidCommitWelcome
+	| VoiceDaveTransitionReady
+	| VoiceHeartbeat
+	| VoiceIdentify
+	| VoiceResume
+	| VoiceSelectProtocol
+	| VoiceSpeakingSend;
+
+export type VoiceReceivePayload =
+	| VoiceClientDisconnect
+	| VoiceClientsConnect
+	| VoiceDaveExecuteTransition
+	| VoiceDavePrepareEpoch
+	| VoiceDavePrepareTransition
+	| VoiceHeartbeatAck
+	| VoiceHello
+	| VoiceReady
+	| VoiceResumed
+	| VoiceSessionDescription
+	| VoiceSpeaking;
+
+/**
+ * Opcodes that are sent by the voice gateway as binary messages
+ */
+export type VoiceBinaryReceiveOpcodes =
+	| VoiceOpcodes.DaveMlsAnnounceCommitTransition
+	| VoiceOpcodes.DaveMlsExternalSender
+	| VoiceOpcodes.DaveMlsProposals
+	| VoiceOpcodes.DaveMlsWelcome;
+
+/**
+ * Opcodes that are sent to the voice gateway as binary messages
+ */
+export type VoiceBinarySendOpcodes = VoiceOpcodes.DaveMlsCommitWelcome | VoiceOpcodes.DaveMlsKeyPackage;
+
+/**
+ * A binary message received from the voice gateway.
+ *
+ * On the wire, it is framed as a big-endian uint16 sequence number, followed by a uint8 opcode and the opcode-specific payload
+ *
+ * See https://daveprotocol.com/#voice-gateway-opcodes
+ */
+export interface VoiceBinaryReceivePayload<Op extends VoiceBinaryReceiveOpcodes = VoiceBinaryReceiveOpcodes> {
+	/**
+	 * Sequence number of the message, used when acknowledging it
+	 */
+	seq: number;
+	/**
+	 * Opcode of the message
+	 */
+	op: Op;
+	/**
+	 * The opcode-specific payload, following the header
+	 */
+	payload: Uint8Array;
+}
+
+/**
+ * A binary message sent to the voice gateway.
+ *
+ * On the wire, it is framed as a uint8 opcode followed by the opcode-specific payload
+ *
+ * See https://daveprotocol.com/#voice-gateway-opcodes
+ */
+export interface VoiceBinarySendPayload<Op extends VoiceBinarySendOpcodes = VoiceBinarySendOpcodes> {
+	/**
+	 * Opcode of the message
+	 */
+	op: Op;
+	/**
+	 * The opcode-specific payload, following the header
+	 */
+	payload: Uint8Array;
+}
+
+// #region Server Payloads
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHello {
+	op: VoiceOpcodes.Hello;
+	d: VoiceHelloData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHelloData {
+	/**
+	 * The interval (in milliseconds) the client should heartbeat with
+	 */
+	heartbeat_interval: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-websocket-connection
+ */
+export interface VoiceReady {
+	op: VoiceOpcodes.Ready;
+	d: VoiceReadyData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-websocket-connection
+ */
+export interface VoiceReadyData {
+	/**
+	 * SSRC identifier
+	 */
+	ssrc: number;
+	/**
+	 * UDP IP
+	 */
+	ip: string;
+	/**
+	 * UDP port
+	 */
+	port: number;
+	/**
+	 * Supported encryption modes
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#transport-encryption-modes
+	 */
+	modes: VoiceEncryptionMode[];
+	/**
+	 * An erroneous heartbeat interval that should be ignored in favour of the one sent in {@link VoiceHello}
+	 *
+	 * @deprecated Use the `heartbeat_interval` from the Hello payload instead
+	 */
+	heartbeat_interval?: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHeartbeatAck {
+	op: VoiceOpcodes.HeartbeatAck;
+	d: VoiceHeartbeatAckData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHeartbeatAckData {
+	/**
+	 * The nonce that was sent in the acknowledged heartbeat
+	 */
+	t: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSessionDescription extends SequencedPayload {
+	op: VoiceOpcodes.SessionDescription;
+	d: VoiceSessionDescriptionData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSessionDescriptionData {
+	/**
+	 * The selected encryption mode
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#transport-encryption-modes
+	 */
+	mode: VoiceEncryptionMode;
+	/**
+	 * The secret key used for encryption
+	 */
+	secret_key: number[];
+	/**
+	 * The initial DAVE protocol version, or 0 if DAVE is not in use
+	 */
+	dave_protocol_version: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#resuming-voice-connection
+ */
+export interface VoiceResumed {
+	op: VoiceOpcodes.Resumed;
+	d: null;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export interface VoiceSpeaking extends SequencedPayload {
+	op: VoiceOpcodes.Speaking;
+	d: VoiceSpeakingData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export interface VoiceSpeakingData {
+	/**
+	 * The speaking mode flags of the user
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#speaking
+	 */
+	speaking: VoiceSpeakingFlags;
+	/**
+	 * SSRC identifier
+	 */
+	ssrc: number;
+	/**
+	 * The id of the user that is speaking
+	 */
+	user_id: Snowflake;
+}
+
+/**
+ * Sent when one or more users connect to the voice channel
+ */
+export interface VoiceClientsConnect extends SequencedPayload {
+	op: VoiceOpcodes.ClientsConnect;
+	d: VoiceClientsConnectData;
+}
+
+export interface VoiceClientsConnectData {
+	/**
+	 * The ids of the users that connected
+	 */
+	user_ids: Snowflake[];
+}
+
+/**
+ * Sent when a user disconnects from the voice channel
+ */
+export interface VoiceClientDisconnect extends SequencedPayload {
+	op: VoiceOpcodes.ClientDisconnect;
+	d: VoiceClientDisconnectData;
+}
+
+export interface VoiceClientDisconnectData {
+	/**
+	 * The id of the user that disconnected
+	 */
+	user_id: Snowflake;
+}
+
+/**
+ * https://daveprotocol.com/#prepare-transition-21
+ */
+export interface VoiceDavePrepareTransition extends SequencedPayload {
+	op: VoiceOpcodes.DavePrepareTransition;
+	d: VoiceDavePrepareTransitionData;
+}
+
+/**
+ * https://daveprotocol.com/#prepare-transition-21
+ */
+export interface VoiceDavePrepareTransitionData {
+	/**
+	 * The DAVE protocol version that will be used after the transition
+	 */
+	protocol_version: number;
+	/**
+	 * The id of the transition
+	 */
+	transition_id: number;
+}
+
+/**
+ * https://daveprotocol.com/#execute-transition-22
+ */
+export interface VoiceDaveExecuteTransition extends SequencedPayload {
+	op: VoiceOpcodes.DaveExecuteTransition;
+	d: VoiceDaveExecuteTransitionData;
+}
+
+/**
+ * https://daveprotocol.com/#execute-transition-22
+ */
+export interface VoiceDaveExecuteTransitionData {
+	/**
+	 * The id of the transition to execute
+	 */
+	transition_id: number;
+}
+
+/**
+ * https://daveprotocol.com/#prepare-epoch-24
+ */
+export interface VoiceDavePrepareEpoch extends SequencedPayload {
+	op: VoiceOpcodes.DavePrepareEpoch;
+	d: VoiceDavePrepareEpochData;
+}
+
+/**
+ * https://daveprotocol.com/#prepare-epoch-24
+ */
+export interface VoiceDavePrepareEpochData {
+	/**
+	 * The DAVE protocol version that will be used in the upcoming epoch
+	 */
+	protocol_version: number;
+	/**
+	 * The upcoming MLS epoch. An epoch of 1 indicates a new MLS group is being created
+	 */
+	epoch: number;
+}
+
+// #endregion Server Payloads
+
+// #region Sendable Payloads
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-websocket-connection
+ */
+export interface VoiceIdentify {
+	op: VoiceOpcodes.Identify;
+	d: VoiceIdentifyData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-websocket-connection
+ */
+export interface VoiceIdentifyData {
+	/**
+	 * The id of the server to connect to
+	 */
+	server_id: Snowflake;
+	/**
+	 * The id of the user to connect as
+	 */
+	user_id: Snowflake;
+	/**
+	 * Voice state session id
+	 */
+	session_id: string;
+	/**
+	 * Voice connection token
+	 */
+	token: string;
+	/**
+	 * The maximum DAVE protocol version supported by the client, or 0 if DAVE is not supported
+	 */
+	max_dave_protocol_version?: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHeartbeat {
+	op: VoiceOpcodes.Heartbeat;
+	d: VoiceHeartbeatData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#heartbeating
+ */
+export interface VoiceHeartbeatData {
+	/**
+	 * A nonce that will be sent back in the heartbeat acknowledgement
+	 */
+	t: number;
+	/**
+	 * The sequence number of the last numbered message received from the gateway
+	 */
+	seq_ack?: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSelectProtocol {
+	op: VoiceOpcodes.SelectProtocol;
+	d: VoiceSelectProtocolData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSelectProtocolData {
+	/**
+	 * Voice protocol
+	 */
+	protocol: 'udp';
+	/**
+	 * Data associated with the protocol
+	 */
+	data: VoiceSelectProtocolDataData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#establishing-a-voice-udp-connection
+ */
+export interface VoiceSelectProtocolDataData {
+	/**
+	 * External IP address, discovered through IP discovery
+	 */
+	address: string;
+	/**
+	 * External UDP port, discovered through IP discovery
+	 */
+	port: number;
+	/**
+	 * The encryption mode to use
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#transport-encryption-modes
+	 */
+	mode: VoiceEncryptionMode;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#resuming-voice-connection
+ */
+export interface VoiceResume {
+	op: VoiceOpcodes.Resume;
+	d: VoiceResumeData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#resuming-voice-connection
+ */
+export interface VoiceResumeData {
+	/**
+	 * The id of the server to connect to
+	 */
+	server_id: Snowflake;
+	/**
+	 * Voice state session id
+	 */
+	session_id: string;
+	/**
+	 * Voice connection token
+	 */
+	token: string;
+	/**
+	 * The sequence number of the last numbered message received from the gateway
+	 */
+	seq_ack: number;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export interface VoiceSpeakingSend {
+	op: VoiceOpcodes.Speaking;
+	d: VoiceSpeakingSendData;
+}
+
+/**
+ * https://discord.com/developers/docs/topics/voice-connections#speaking
+ */
+export interface VoiceSpeakingSendData {
+	/**
+	 * The speaking mode flags
+	 *
+	 * See https://discord.com/developers/docs/topics/voice-connections#speaking
+	 */
+	speaking: VoiceSpeakingFlags;
+	/**
+	 * Should be set to 0 for bots that use the voice gateway
+	 */
+	delay: number;
+	/**
+	 * SSRC identifier
+	 */
+	ssrc: number;
+}
+
+/**
+ * https://daveprotocol.com/#transition-ready-23
+ */
+export interface VoiceDaveTransitionReady {
+	op: VoiceOpcodes.DaveTransitionReady;
+	d: VoiceDaveTransitionReadyData;
+}
+
+/**
+ * https://daveprotocol.com/#transition-ready-23
+ */
+export interface VoiceDaveTransitionReadyData {
+	/**
+	 * The id of the transition the client is ready for
+	 */
+	transition_id: number;
+}
+
+/**
+ * https://daveprotocol.com/#invalid-commit-welcome-31
+ */
+export interface VoiceDaveMlsInvalidCommitWelcome {
+	op: VoiceOpcodes.DaveMlsInvalidCommitWelcome;
+	d: VoiceDaveMlsInvalidCommitWelcomeData;
+}
+
+/**
+ * https://daveprotocol.com/#invalid-commit-welcome-31
+ */
+export interface VoiceDaveMlsInvalidCommitWelcomeData {
+	/**
+	 * The id of the transition that contained the invalid commit or welcome
+	 */
+	transition_id: number;
+}
+
+// #endregion Sendable Payloads
+
+// #region Shared
+interface SequencedPayload {
+	/**
+	 * Sequence number of the message, used to acknowledge it when heartbeating or resuming
+	 */
+	seq: number;
+}
+// #endregion Shared